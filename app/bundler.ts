@@ -1,6 +1,53 @@
-await Bun.build({
-  entrypoints: ["./app/main.ts"],
-  outdir: "./app/examples",
-  minify: true,
-  target: "browser",
-}).catch(console.error);
+export interface BuildResult {
+  success: boolean;
+  /** The build errors, one per line, when the build failed. */
+  errors: string[];
+}
+
+/**
+ * Formats a build message with the location it points to. Other errors thrown
+ * by the build are formatted as is.
+ */
+function formatMessage(
+  message: BuildMessage | ResolveMessage | unknown
+): string {
+  if (!(message instanceof BuildMessage || message instanceof ResolveMessage)) {
+    return String(message);
+  }
+  const { position } = message;
+  const location = position
+    ? `${position.file}:${position.line}:${position.column}: `
+    : "";
+  return location + message.message;
+}
+
+/**
+ * Bundles the example app into `app/examples`.
+ */
+export default async function Build(): Promise<BuildResult> {
+  try {
+    const output = await Bun.build({
+      entrypoints: ["./app/main.ts"],
+      outdir: "./app/examples",
+      minify: true,
+      target: "browser",
+    });
+    return {
+      success: output.success,
+      errors: output.logs
+        .filter((log) => log.level === "error")
+        .map(formatMessage),
+    };
+  } catch (error) {
+    const messages = error instanceof AggregateError ? error.errors : [error];
+    return { success: false, errors: messages.map(formatMessage) };
+  }
+}
+
+if (import.meta.main) {
+  const result = await Build();
+  if (!result.success) {
+    console.error(result.errors.join("\n"));
+    process.exit(1);
+  }
+}
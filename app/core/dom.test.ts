@@ -0,0 +1,139 @@
+import { bindAttr, bindClass, bindList, bindText } from "./dom";
+import { createScope, createState, flushSync } from "./statemanager";
+import { expect, test, jest } from "bun:test";
+
+/**
+ * Minimal element implementing the parts of the DOM used by the bindings.
+ */
+class FakeElement {
+  textContent: string | null = "";
+  attributes = new Map<string, string>();
+  classes = new Set<string>();
+  children: unknown[] = [];
+  classList = {
+    toggle: (name: string, force: boolean) => {
+      if (force) this.classes.add(name);
+      else this.classes.delete(name);
+    },
+  };
+
+  setAttribute(name: string, value: string): void {
+    this.attributes.set(name, value);
+  }
+
+  removeAttribute(name: string): void {
+    this.attributes.delete(name);
+  }
+
+  replaceChildren(...children: unknown[]): void {
+    this.children = children;
+  }
+}
+
+const fake = () => new FakeElement() as unknown as Element & FakeElement;
+
+test("bindText should update the text until the binding is removed", () => {
+  const el = fake();
+  const [getFirst, setFirst] = createState("John");
+  const [getLast] = createState("Doe");
+  const unbind = bindText(el, () => `${getFirst()} ${getLast()}`);
+
+  expect(el.textContent).toBe("John Doe");
+
+  setFirst("Jane");
+  flushSync();
+  expect(el.textContent).toBe("Jane Doe");
+
+  unbind();
+  setFirst("Janet");
+  flushSync();
+  expect(el.textContent).toBe("Jane Doe");
+});
+
+test("bindAttr should set, empty and remove attributes", () => {
+  const el = fake();
+  const [getValue, setValue] = createState<string | boolean | null>("a");
+  bindAttr(el, "data-value", getValue);
+
+  expect(el.attributes.get("data-value")).toBe("a");
+
+  setValue(true);
+  flushSync();
+  expect(el.attributes.get("data-value")).toBe("");
+
+  setValue(false);
+  flushSync();
+  expect(el.attributes.has("data-value")).toBe(false);
+});
+
+test("bindClass should toggle classes and be disposed of with its scope", () => {
+  const el = fake();
+  const [getActive, setActive] = createState(true);
+  const scope = createScope();
+  scope.run(() => bindClass(el, "active", getActive));
+
+  expect(el.classes.has("active")).toBe(true);
+
+  setActive(false);
+  flushSync();
+  expect(el.classes.has("active")).toBe(false);
+
+  scope.dispose();
+  setActive(true);
+  flushSync();
+  expect(el.classes.has("active")).toBe(false);
+});
+
+test("bindList should reuse the nodes of items with the same key", () => {
+  const el = fake();
+  const [getTodos, setTodos] = createState([
+    { id: 1, title: "a" },
+    { id: 2, title: "b" },
+  ]);
+  const render = jest.fn((todo: { id: number; title: string }) => {
+    const node = fake();
+    node.textContent = todo.title;
+    return node;
+  });
+  bindList(el, getTodos, render, (todo) => todo.id);
+
+  const [first, second] = el.children;
+  expect(el.children.map((node: any) => node.textContent)).toEqual(["a", "b"]);
+
+  setTodos((todos) => [{ id: 3, title: "c" }, todos[1]!, todos[0]!]);
+  flushSync();
+
+  expect(el.children.map((node: any) => node.textContent)).toEqual([
+    "c",
+    "b",
+    "a",
+  ]);
+  expect(el.children[1]).toBe(second);
+  expect(el.children[2]).toBe(first);
+  expect(render).toHaveBeenCalledTimes(3);
+});
+
+test("bindList should dispose of the bindings of removed items", () => {
+  const el = fake();
+  const [getItems, setItems] = createState(["a", "b"]);
+  const [getSuffix, setSuffix] = createState("!");
+  const unbind = bindList(el, getItems, (item) => {
+    const node = fake();
+    bindText(node, () => item + getSuffix());
+    return node;
+  });
+  const [a, b] = el.children as FakeElement[];
+
+  setItems(["a"]);
+  setSuffix("?");
+  flushSync();
+
+  expect(a!.textContent).toBe("a?");
+  expect(b!.textContent).toBe("b!");
+
+  unbind();
+  setSuffix(".");
+  flushSync();
+
+  expect(a!.textContent).toBe("a?");
+});
@@ -0,0 +1,159 @@
+import {
+  createEffect,
+  createRoot,
+  createScope,
+  untrack,
+  type Getter,
+} from "./statemanager";
+
+/**
+ * Value of an attribute bound with `bindAttr`. `null`, `undefined` and
+ * `false` remove the attribute and `true` sets it empty.
+ */
+export type AttrValue = string | number | boolean | null | undefined;
+
+/**
+ * Binds the text content of an element to a getter. The getter may read any
+ * number of states; the text updates during the flush following a change.
+ *
+ * Bindings are effects: they are disposed of with the scope or effect they
+ * were created in, or with the function they return.
+ *
+ * @param {Node} node - The element or text node to update.
+ * @param {Getter<unknown>} get - Returns the text, converted with `String`.
+ * @returns {() => void} - A function removing the binding.
+ *
+ * @example
+ * ```typescript
+ * bindText(document.getElementById("count")!, getCount);
+ * bindText(fullNameEl, () => `${getFirst()} ${getLast()}`);
+ * ```
+ */
+export function bindText(node: Node, get: Getter<unknown>): () => void {
+  return createEffect(() => {
+    node.textContent = String(get());
+  });
+}
+
+/**
+ * Binds an attribute of an element to a getter.
+ *
+ * @param {Element} element - The element to update.
+ * @param {string} name - The name of the attribute.
+ * @param {Getter<AttrValue>} get - Returns the value of the attribute.
+ * @returns {() => void} - A function removing the binding.
+ *
+ * @example
+ * ```typescript
+ * bindAttr(submitEl, "disabled", () => setEmail.errors().length > 0);
+ * bindAttr(linkEl, "href", () => `/users/${getUserId()}`);
+ * ```
+ */
+export function bindAttr(
+  element: Element,
+  name: string,
+  get: Getter<AttrValue>
+): () => void {
+  return createEffect(() => {
+    const value = get();
+    if (value === null || value === undefined || value === false) {
+      element.removeAttribute(name);
+    } else {
+      element.setAttribute(name, value === true ? "" : String(value));
+    }
+  });
+}
+
+/**
+ * Toggles a class of an element with a getter.
+ *
+ * @param {Element} element - The element to update.
+ * @param {string} className - The class to toggle.
+ * @param {Getter<boolean>} get - Returns whether the element has the class.
+ * @returns {() => void} - A function removing the binding.
+ *
+ * @example
+ * ```typescript
+ * bindClass(inputEl, "invalid", () => setEmail.errors().length > 0);
+ * ```
+ */
+export function bindClass(
+  element: Element,
+  className: string,
+  get: Getter<boolean>
+): () => void {
+  return createEffect(() => {
+    element.classList.toggle(className, get());
+  });
+}
+
+/**
+ * Renders an array into the children of an element. Items are matched to the
+ * nodes already rendered by key, so unchanged items keep their node and only
+ * new items are rendered. Items whose key was already seen are skipped.
+ *
+ * `render` runs untracked, in a scope of its own disposed of when the item is
+ * removed: reading states in it does not rerender the list, and bindings
+ * created in it update the node of the item until then.
+ *
+ * @template T - The type of the items.
+ * @param {Element} element - The element whose children are replaced.
+ * @param {Getter<readonly T[]>} get - Returns the items.
+ * @param {(item: T, index: number) => Node} render - Creates the node of an item.
+ * @param {(item: T, index: number) => unknown} [key] - Identifies an item. Defaults to the item itself.
+ * @returns {() => void} - A function removing the binding and disposing of the items.
+ *
+ * @example
+ * ```typescript
+ * bindList(
+ *   listEl,
+ *   getTodos,
+ *   (todo) => {
+ *     const li = document.createElement("li");
+ *     bindClass(li, "done", () => isDone(todo.id));
+ *     li.textContent = todo.title;
+ *     return li;
+ *   },
+ *   (todo) => todo.id
+ * );
+ * ```
+ */
+export function bindList<T>(
+  element: Element,
+  get: Getter<readonly T[]>,
+  render: (item: T, index: number) => Node,
+  key: (item: T, index: number) => unknown = (item) => item
+): () => void {
+  let rendered = new Map<unknown, { node: Node; dispose: () => void }>();
+  const scope = createScope();
+  scope.run(() => {
+    // Reads no state, so its cleanup only runs when the binding is disposed of
+    createEffect(() => () => {
+      for (const { dispose } of rendered.values()) dispose();
+      rendered.clear();
+    });
+    createEffect(() => {
+      const items = get();
+      untrack(() => {
+        const next = new Map<unknown, { node: Node; dispose: () => void }>();
+        items.forEach((item, index) => {
+          const id = key(item, index);
+          if (next.has(id)) return;
+          next.set(
+            id,
+            rendered.get(id) ??
+              createRoot((dispose) => ({ node: render(item, index), dispose }))
+          );
+        });
+        for (const [id, { dispose }] of rendered) {
+          if (!next.has(id)) dispose();
+        }
+        rendered = next;
+        element.replaceChildren(
+          ...Array.from(next.values(), ({ node }) => node)
+        );
+      });
+    });
+  });
+  return scope.dispose;
+}
@@ -0,0 +1,74 @@
+/**
+ * Error thrown when the dependency graph contains a cycle, either because
+ * computed states read each other or because updates keep triggering each
+ * other past the configured maximum number of iterations.
+ */
+export class CycleError extends Error {
+  /**
+   * The labels of the states involved, in dependency order for cycles
+   * between computed states. Unlabeled states appear as `<anonymous>`.
+   */
+  readonly states: string[];
+
+  /**
+   * @param {string} message - The error message.
+   * @param {string[]} states - The labels of the states involved.
+   */
+  constructor(message: string, states: string[]) {
+    super(message);
+    this.name = "CycleError";
+    this.states = states;
+  }
+}
+
+/**
+ * Describes where an error reported to an error handler happened.
+ */
+export interface ErrorContext {
+  /** The label of the state or effect the error belongs to, if any. */
+  name?: string;
+  /**
+   * What was running when the error was thrown: a subscriber, the compute
+   * function of a computed or hybrid state, an effect, an effect cleanup, the
+   * `notify` hook of a middleware, or a scheduled flush aborted by an update
+   * loop.
+   */
+  source:
+    "subscriber" | "compute" | "effect" | "cleanup" | "middleware" | "flush";
+}
+
+/**
+ * Function receiving errors that were isolated instead of aborting a flush.
+ *
+ * @param {unknown} error - The error that was thrown.
+ * @param {ErrorContext} context - Where the error happened.
+ */
+export type ErrorHandler = (error: unknown, context: ErrorContext) => void;
+
+/**
+ * Describes why a value failed validation.
+ */
+export interface ValidationIssue {
+  /** The message describing the problem. */
+  message: string;
+  /** The path of the invalid value inside the validated value, if any. */
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+}
+
+/**
+ * Error thrown when a value is rejected by a validator.
+ */
+export class ValidationError extends Error {
+  /** The problems found in the value. */
+  readonly issues: readonly ValidationIssue[];
+
+  /**
+   * @param {string} message - The error message.
+   * @param {readonly ValidationIssue[]} issues - The problems found in the value.
+   */
+  constructor(message: string, issues: readonly ValidationIssue[]) {
+    super(message);
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
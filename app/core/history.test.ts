@@ -0,0 +1,202 @@
+import { withHistory } from "./history";
+import { createInspector } from "./inspector";
+import {
+  batch,
+  createComputedState,
+  createState,
+  flushSync,
+} from "./statemanager";
+import { expect, test, jest } from "bun:test";
+
+test("withHistory should undo and redo flushed changes", () => {
+  const text = createState("");
+  const history = withHistory(text);
+  const [getText, setText] = text;
+
+  setText("a");
+  flushSync();
+  setText("ab");
+  flushSync();
+
+  history.undo();
+  expect(getText()).toBe("a");
+  history.undo();
+  expect(getText()).toBe("");
+  history.undo();
+  expect(getText()).toBe("");
+
+  history.redo();
+  history.redo();
+  expect(getText()).toBe("ab");
+  expect(history.canRedo()).toBe(false);
+});
+
+test("changes made in one batch or flush should be undone together", () => {
+  const counter = createState(0);
+  const history = withHistory(counter);
+  const [getCount, setCount] = counter;
+
+  batch(() => {
+    setCount(1);
+    setCount(2);
+  });
+  setCount(3);
+  setCount(4);
+
+  history.undo();
+  expect(getCount()).toBe(2);
+  history.undo();
+  expect(getCount()).toBe(0);
+});
+
+test("a new change should drop the undone entries", () => {
+  const counter = createState(0);
+  const history = withHistory(counter);
+  const [getCount, setCount] = counter;
+  setCount(1);
+  flushSync();
+
+  history.undo();
+  setCount(5);
+  flushSync();
+  history.redo();
+
+  expect(getCount()).toBe(5);
+  expect(history.entries()).toEqual({ past: [0], present: 5, future: [] });
+});
+
+test("canUndo and canRedo should be reactive", () => {
+  const counter = createState(0);
+  const history = withHistory(counter);
+  const [, subscribeFlags] = createComputedState(() => [
+    history.canUndo(),
+    history.canRedo(),
+  ]);
+  const flags = jest.fn();
+  subscribeFlags(flags);
+
+  counter[1](1);
+  flushSync();
+  history.undo();
+  flushSync();
+
+  expect(flags.mock.calls.map(([value]) => value)).toEqual([
+    [false, false],
+    [true, false],
+    [false, true],
+  ]);
+});
+
+test("withHistory should keep at most limit entries", () => {
+  const counter = createState(0);
+  const history = withHistory(counter, { limit: 2 });
+  for (let i = 1; i <= 5; i++) {
+    counter[1](i);
+    flushSync();
+  }
+
+  expect(history.entries().past).toEqual([3, 4]);
+});
+
+test("with auto disabled only checkpoints should be recorded", () => {
+  const text = createState("");
+  const history = withHistory(text, { auto: false });
+  const [getText, setText] = text;
+
+  setText("H");
+  flushSync();
+  setText("Hi");
+  flushSync();
+  history.checkpoint();
+  setText("Hi!");
+  flushSync();
+
+  history.undo();
+  expect(getText()).toBe("Hi");
+  history.undo();
+  expect(getText()).toBe("");
+  history.redo();
+  history.redo();
+  expect(getText()).toBe("Hi!");
+});
+
+test("clear should drop every entry and keep the current value", () => {
+  const counter = createState(0);
+  const history = withHistory(counter);
+  counter[1](1);
+  flushSync();
+  history.undo();
+
+  history.clear();
+
+  expect(counter[0]()).toBe(0);
+  expect(history.canUndo()).toBe(false);
+  expect(history.canRedo()).toBe(false);
+});
+
+test("dispose should stop recording changes", () => {
+  const counter = createState(0);
+  const history = withHistory(counter);
+  history.dispose();
+
+  counter[1](1);
+  flushSync();
+
+  expect(history.canUndo()).toBe(false);
+});
+
+test("dispose should dispose of the canUndo and canRedo states", () => {
+  const counter = createState(0);
+  const inspector = createInspector();
+  try {
+    const history = withHistory(counter);
+    inspector.clearLog();
+
+    history.dispose();
+
+    expect(inspector.log().map(({ type, kind }) => [type, kind])).toEqual([
+      ["dispose", "state"],
+      ["dispose", "state"],
+    ]);
+  } finally {
+    inspector.dispose();
+  }
+});
+
+test("restored values should be the copies stored by the state", () => {
+  const user = createState({ name: "John" });
+  const history = withHistory(user);
+  const [getUser, setUser] = user;
+  const initial = getUser();
+  setUser({ name: "Jane" });
+  flushSync();
+
+  history.undo();
+
+  expect(getUser()).toEqual({ name: "John" });
+  expect(history.entries().past).toEqual([]);
+  expect(history.entries().future[0]).toEqual({ name: "Jane" });
+  expect(initial).toEqual({ name: "John" });
+});
+
+test("undo inside a batch should only notify once the batch returns", () => {
+  const [getA, setA, subscribeA] = createState(0);
+  const history = withHistory([getA, setA, subscribeA]);
+  const [, setB, subscribeB] = createState(0);
+  const seen: string[] = [];
+  subscribeA((value) => seen.push(`a=${value}`));
+  subscribeB((value) => seen.push(`b=${value}`));
+  seen.length = 0;
+  setA(1);
+  flushSync();
+  seen.length = 0;
+
+  batch(() => {
+    setB(5);
+    history.undo();
+    setB(6);
+  });
+
+  expect(getA()).toBe(0);
+  expect(seen).toEqual(["b=6", "a=0"]);
+});
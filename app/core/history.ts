@@ -0,0 +1,161 @@
+import {
+  createRoot,
+  createState,
+  flushSync,
+  type Getter,
+  type Setter,
+  type SubscriberFn,
+} from "./statemanager";
+
+/**
+ * Options accepted by `withHistory`.
+ */
+export interface HistoryOptions {
+  /** Maximum number of entries that can be undone. Defaults to 100. */
+  limit?: number;
+  /**
+   * Whether every flushed change is recorded. With `false`, changes are only
+   * recorded by `checkpoint`, grouping everything in between into one entry.
+   * Defaults to `true`.
+   */
+  auto?: boolean;
+}
+
+/**
+ * Handle returned by `withHistory`.
+ *
+ * @template T - The type of the state.
+ */
+export interface History<T> {
+  /** Restores the previous entry. Unrecorded changes are recorded first. */
+  undo(): void;
+  /** Restores the entry undone last. */
+  redo(): void;
+  /** Reactive getter telling whether `undo` has an entry to restore. */
+  canUndo: Getter<boolean>;
+  /** Reactive getter telling whether `redo` has an entry to restore. */
+  canRedo: Getter<boolean>;
+  /** Records the current value as a new entry, ending the current group. */
+  checkpoint(): void;
+  /** Drops every entry, keeping the current value. */
+  clear(): void;
+  /**
+   * Returns the recorded values: `past` from the oldest, `future` from the
+   * next one `redo` restores.
+   */
+  entries(): { past: T[]; present: T; future: T[] };
+  /** Stops recording changes and disposes of `canUndo` and `canRedo`. */
+  dispose(): void;
+}
+
+/**
+ * Records the values of a state to undo and redo its changes. Values are the
+ * copies the state already stores, so recording them costs no extra clone.
+ *
+ * Every flush records one entry: changes made in the same `batch`, or before
+ * subscribers are notified, are undone together. With `auto: false`, entries
+ * are only recorded by `checkpoint`.
+ *
+ * @template T - The type of the state.
+ * @param {[Getter<T>, Setter<T>, SubscriberFn<T>]} state - The tuple returned by `createState`.
+ * @param {HistoryOptions} [options] - The history limit and recording mode.
+ * @returns {History<T>} - The handle controlling the history.
+ *
+ * @example
+ * ```typescript
+ * const text = createState("");
+ * const history = withHistory(text, { limit: 50 });
+ * const [getText, setText] = text;
+ * setText("Hello");
+ * batch(() => {
+ *   setText("Hello, world");
+ *   setText("Hello, world!");
+ * });
+ * history.undo(); // getText() === "Hello"
+ * history.redo(); // getText() === "Hello, world!"
+ * console.log(history.canRedo()); // false
+ * ```
+ */
+export function withHistory<T>(
+  [get, set, subscribe]: [Getter<T>, Setter<T>, SubscriberFn<T>],
+  options: HistoryOptions = {}
+): History<T> {
+  const { limit = 100, auto = true } = options;
+  let past: T[] = [];
+  let future: T[] = [];
+  let present = get();
+  // The states live as long as the history, which disposes of them
+  const [[canUndo, setCanUndo], [canRedo, setCanRedo], disposeStates] =
+    createRoot(
+      (dispose) =>
+        [
+          createState(false, { internal: true }),
+          createState(false, { internal: true }),
+          dispose,
+        ] as const
+    );
+
+  const update = (): void => {
+    setCanUndo(past.length > 0);
+    setCanRedo(future.length > 0);
+  };
+
+  const record = (value: T): void => {
+    if (value === present) return;
+    past.push(present);
+    if (past.length > limit) past.shift();
+    future = [];
+    present = value;
+    update();
+  };
+
+  const restore = (value: T): void => {
+    set(() => value);
+    present = get();
+    update();
+  };
+
+  // Restored values are already the present, so only new changes are recorded
+  const unsubscribe = subscribe((value) => {
+    if (auto) record(value);
+  });
+
+  const checkpoint = (): void => {
+    flushSync();
+    record(get());
+  };
+
+  return {
+    undo(): void {
+      checkpoint();
+      if (past.length === 0) return;
+      future.push(present);
+      restore(past.pop()!);
+    },
+    redo(): void {
+      checkpoint();
+      if (future.length === 0) return;
+      past.push(present);
+      restore(future.pop()!);
+    },
+    canUndo,
+    canRedo,
+    checkpoint,
+    clear(): void {
+      flushSync();
+      past = [];
+      future = [];
+      present = get();
+      update();
+    },
+    entries: () => ({
+      past: past.slice(),
+      present,
+      future: future.slice().reverse(),
+    }),
+    dispose(): void {
+      unsubscribe();
+      disposeStates();
+    },
+  };
+}
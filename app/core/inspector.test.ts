@@ -0,0 +1,189 @@
+import { createInspector } from "./inspector";
+import {
+  createComputedState,
+  createEffect,
+  createRoot,
+  createState,
+  dispose,
+  flushSync,
+} from "./statemanager";
+import { expect, test } from "bun:test";
+
+test("the inspector should log every set, recompute and notify", () => {
+  const inspector = createInspector();
+  try {
+    const [getCount, setCount] = createState(0, { name: "count" });
+    const [, subscribeDouble] = createComputedState(() => getCount() * 2, {
+      name: "double",
+    });
+    subscribeDouble(() => {});
+    inspector.clearLog();
+
+    setCount(1);
+    flushSync();
+
+    expect(
+      inspector.log().map(({ type, name, value }) => [type, name, value])
+    ).toEqual([
+      ["set", "count", 1],
+      ["recompute", "double", 2],
+      ["notify", "double", 2],
+    ]);
+    expect(typeof inspector.log()[0]!.time).toBe("number");
+  } finally {
+    inspector.dispose();
+  }
+});
+
+test("snapshot should describe nodes, edges and subscriber counts", () => {
+  const inspector = createInspector();
+  try {
+    const [getA] = createState({ tags: new Set(["x"]) }, { name: "a" });
+    const [, subscribeB] = createComputedState(() => getA().tags.size, {
+      name: "b",
+    });
+    subscribeB(() => {});
+    subscribeB(() => {});
+    createRoot((disposeRoot) => {
+      createEffect(
+        () => {
+          getA();
+        },
+        { name: "log" }
+      );
+
+      const { nodes, edges } = inspector.snapshot();
+      const byName = Object.fromEntries(nodes.map((node) => [node.name, node]));
+
+      expect(byName["a"]).toMatchObject({
+        kind: "state",
+        value: { tags: ["x"] },
+        subscribers: 0,
+      });
+      expect(byName["b"]).toMatchObject({
+        kind: "computed",
+        value: 1,
+        subscribers: 2,
+        status: "clean",
+      });
+      expect(byName["log"]!.kind).toBe("effect");
+      expect(edges).toContainEqual({
+        from: byName["a"]!.id,
+        to: byName["b"]!.id,
+      });
+      expect(edges).toContainEqual({
+        from: byName["a"]!.id,
+        to: byName["log"]!.id,
+      });
+      expect(JSON.parse(JSON.stringify(inspector.snapshot()))).toEqual(
+        inspector.snapshot()
+      );
+      disposeRoot();
+    });
+  } finally {
+    inspector.dispose();
+  }
+});
+
+test("snapshot should include nodes created before the inspector once they are seen", () => {
+  const [getA, setA] = createState(1, { name: "early" });
+  const [, subscribeB] = createComputedState(() => getA() + 1, {
+    name: "early double",
+  });
+  subscribeB(() => {});
+  const inspector = createInspector();
+  try {
+    setA(2);
+
+    const names = inspector.snapshot().nodes.map((node) => node.name);
+    expect(names).toEqual(["early", "early double"]);
+  } finally {
+    inspector.dispose();
+  }
+});
+
+test("disposed nodes should be logged and dropped from the snapshot", () => {
+  const inspector = createInspector();
+  try {
+    const [getA] = createState(0, { name: "temporary" });
+    dispose(getA);
+
+    expect(inspector.log().map(({ type }) => type)).toEqual([
+      "create",
+      "dispose",
+    ]);
+    expect(inspector.snapshot().nodes).toEqual([]);
+  } finally {
+    inspector.dispose();
+  }
+});
+
+test("the inspector should export JSON and DOT", () => {
+  const inspector = createInspector();
+  try {
+    const [getA] = createState('say "hi"', { name: "a" });
+    const [, subscribeB] = createComputedState(() => getA().length);
+    subscribeB(() => {});
+
+    const json = JSON.parse(inspector.toJSON());
+    expect(json.nodes).toHaveLength(2);
+    expect(json.log.length).toBeGreaterThan(0);
+
+    const dot = inspector.toDOT();
+    expect(dot).toStartWith("digraph kraai {");
+    expect(dot).toContain(
+      'n1 [label="a\\n\\"say \\\\\\"hi\\\\\\"\\"", shape=box];'
+    );
+    expect(dot).toContain('label="computed #2\\n8", shape=ellipse');
+    expect(dot).toContain("n1 -> n2;");
+  } finally {
+    inspector.dispose();
+  }
+});
+
+test("the log should keep at most limit entries and stop after dispose", () => {
+  const events: string[] = [];
+  const inspector = createInspector({
+    limit: 2,
+    onEvent: (entry) => events.push(entry.type),
+  });
+  const [, setA] = createState(0);
+  setA(1);
+  setA(2);
+
+  expect(inspector.log().map(({ value }) => value)).toEqual([1, 2]);
+  expect(events).toEqual(["create", "set", "set"]);
+
+  inspector.dispose();
+  setA(3);
+
+  expect(events).toHaveLength(3);
+});
+
+test("disposing of an inspector should keep newer inspectors recording", () => {
+  const first = createInspector();
+  const second = createInspector();
+  const third = createInspector();
+  try {
+    second.dispose();
+    first.dispose();
+    const [, setCount] = createState(0, { name: "count" });
+    setCount(1);
+
+    expect(third.log().map(({ type, name }) => [type, name])).toEqual([
+      ["create", "count"],
+      ["set", "count"],
+    ]);
+    expect(first.log()).toEqual([]);
+    expect(second.log()).toEqual([]);
+
+    const fourth = createInspector();
+    third.dispose();
+    setCount(2);
+    expect(fourth.log().map(({ type }) => type)).toEqual(["set"]);
+    expect(third.log()).toHaveLength(2);
+    fourth.dispose();
+  } finally {
+    third.dispose();
+  }
+});
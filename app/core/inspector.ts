@@ -0,0 +1,277 @@
+import {
+  inspectNode,
+  setInspectorHook,
+  type InspectorEventType,
+  type InspectorHook,
+  type NodeKind,
+  type StateStatus,
+} from "./statemanager";
+
+/**
+ * Node of a graph snapshot.
+ */
+export interface GraphNode {
+  /** Identifier of the node, stable for the lifetime of the inspector. */
+  id: number;
+  name?: string;
+  kind: NodeKind;
+  status: StateStatus;
+  /** Serializable copy of the current value. */
+  value: unknown;
+  subscribers: number;
+}
+
+/**
+ * Edge of a graph snapshot, from a node to a node that read it.
+ */
+export interface GraphEdge {
+  from: number;
+  to: number;
+}
+
+/**
+ * Serializable snapshot of the dependency graph.
+ */
+export interface GraphSnapshot {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Entry of the change log of an inspector.
+ */
+export interface LogEntry {
+  /** Time of the event, in milliseconds since the epoch. */
+  time: number;
+  type: InspectorEventType;
+  id: number;
+  name?: string;
+  kind: NodeKind;
+  /** Serializable copy of the value of the node after the event. */
+  value?: unknown;
+}
+
+/**
+ * Options accepted by `createInspector`.
+ */
+export interface InspectorOptions {
+  /** Maximum number of log entries kept, oldest dropped first. Defaults to 1000. */
+  limit?: number;
+  /** Called with every new log entry. */
+  onEvent?: (entry: LogEntry) => void;
+}
+
+/**
+ * Inspector returned by `createInspector`.
+ */
+export interface Inspector {
+  /** Returns a snapshot of every node seen by the inspector and of their links. */
+  snapshot(): GraphSnapshot;
+  /** Returns the log entries, oldest first. */
+  log(): LogEntry[];
+  /** Empties the log. */
+  clearLog(): void;
+  /** Exports the snapshot and the log as JSON. */
+  toJSON(): string;
+  /** Exports the snapshot as a Graphviz DOT graph. */
+  toDOT(): string;
+  /** Stops recording events and forgets every node. */
+  dispose(): void;
+}
+
+/**
+ * Converts a value into one that survives `JSON.stringify`: Maps and Sets
+ * become arrays, functions and symbols their description, and repeated
+ * references to an object being converted `"[Circular]"`.
+ *
+ * @param {unknown} value - The value to convert.
+ * @param {Set<object>} [seen] - The objects currently being converted.
+ * @returns {unknown} - The serializable value.
+ */
+function toSerializable(value: unknown, seen = new Set<object>()): unknown {
+  if (typeof value === "function") {
+    return `[Function ${value.name || "anonymous"}]`;
+  }
+  if (typeof value === "symbol" || typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value === null || typeof value !== "object") return value;
+  if (seen.has(value)) return "[Circular]";
+  if (value instanceof Date) return value.toISOString();
+
+  seen.add(value);
+  let result: unknown;
+  if (value instanceof Map) {
+    result = Array.from(value, ([key, entry]) => [
+      toSerializable(key, seen),
+      toSerializable(entry, seen),
+    ]);
+  } else if (value instanceof Set || Array.isArray(value)) {
+    result = Array.from(value, (entry) => toSerializable(entry, seen));
+  } else {
+    const copy: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      copy[key] = toSerializable((value as Record<string, unknown>)[key], seen);
+    }
+    result = copy;
+  }
+  seen.delete(value);
+  return result;
+}
+
+/**
+ * Escapes a string for a double-quoted DOT identifier.
+ *
+ * @param {string} text - The text to escape.
+ * @returns {string} - The escaped text.
+ */
+function escapeDOT(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/** DOT shape of every kind of node. */
+const shapes: Record<NodeKind, string> = {
+  state: "box",
+  computed: "ellipse",
+  hybrid: "octagon",
+  effect: "hexagon",
+};
+
+/** Hook each active inspector calls before its own, chaining the inspectors. */
+const previousHooks = new Map<InspectorHook, InspectorHook | null>();
+
+/**
+ * Creates an inspector recording every node created, set, recomputed or
+ * notified from now on, with the nodes linked to them. Inspectors can be
+ * created side by side: every active inspector receives the events, and
+ * disposing of one leaves the others recording.
+ *
+ * The inspector keeps the nodes it saw alive until they are disposed of or
+ * the inspector is, so it is meant for development and tests.
+ *
+ * @param {InspectorOptions} [options] - The log limit and event callback.
+ * @returns {Inspector} - The inspector.
+ *
+ * @example
+ * ```typescript
+ * const inspector = createInspector();
+ * const [getCount, setCount] = createState(0, { name: "count" });
+ * const [getDouble] = createComputedState(() => getCount() * 2, {
+ *   name: "double",
+ * });
+ * getDouble();
+ * setCount(1);
+ * console.log(inspector.log().map((entry) => `${entry.type} ${entry.name}`));
+ * // ["create count", "create double", "recompute double", "set count"]
+ * console.log(inspector.toDOT());
+ * ```
+ */
+export function createInspector(options: InspectorOptions = {}): Inspector {
+  const { limit = 1000, onEvent } = options;
+  const ids = new Map<object, number>();
+  let nextId = 1;
+  let entries: LogEntry[] = [];
+  let disposed = false;
+
+  const idOf = (node: object): number => {
+    let id = ids.get(node);
+    if (id === undefined) {
+      id = nextId++;
+      ids.set(node, id);
+    }
+    return id;
+  };
+
+  const hook: InspectorHook = (type, node, value) => {
+    previousHooks.get(hook)?.(type, node, value);
+    const info = inspectNode(node);
+    const entry: LogEntry = {
+      time: Date.now(),
+      type,
+      id: idOf(node),
+      name: info.name,
+      kind: info.kind,
+    };
+    if (type !== "create" && type !== "dispose") {
+      entry.value = toSerializable(value);
+    }
+    if (type === "dispose") ids.delete(node);
+    entries.push(entry);
+    if (entries.length > limit) entries.shift();
+    onEvent?.(entry);
+  };
+  previousHooks.set(hook, setInspectorHook(hook));
+
+  const snapshot = (): GraphSnapshot => {
+    const nodes: GraphNode[] = [];
+    const edges: GraphEdge[] = [];
+    const visited = new Set<object>();
+    const queue = Array.from(ids.keys());
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      if (visited.has(node)) continue;
+      visited.add(node);
+      const info = inspectNode(node);
+      const id = idOf(node);
+      nodes.push({
+        id,
+        name: info.name,
+        kind: info.kind,
+        status: info.status,
+        value: toSerializable(info.value),
+        subscribers: info.subscribers,
+      });
+      for (const dependent of info.dependents) {
+        edges.push({ from: id, to: idOf(dependent) });
+        queue.push(dependent);
+      }
+      // Dependencies are listed as edges by the dependency itself
+      queue.push(...info.dependencies);
+    }
+    nodes.sort((a, b) => a.id - b.id);
+    return { nodes, edges };
+  };
+
+  return {
+    snapshot,
+    log: () => entries.slice(),
+    clearLog(): void {
+      entries = [];
+    },
+    toJSON: () =>
+      JSON.stringify({ ...snapshot(), log: entries.slice() }, null, 2),
+    toDOT(): string {
+      const { nodes, edges } = snapshot();
+      const lines = ["digraph kraai {"];
+      for (const node of nodes) {
+        const label = `${node.name ?? `${node.kind} #${node.id}`}\n${
+          node.kind === "effect" ? "effect" : JSON.stringify(node.value)
+        }`;
+        lines.push(
+          `  n${node.id} [label="${escapeDOT(label)}", shape=${shapes[node.kind]}];`
+        );
+      }
+      for (const edge of edges) {
+        lines.push(`  n${edge.from} -> n${edge.to};`);
+      }
+      lines.push("}");
+      return lines.join("\n");
+    },
+    dispose(): void {
+      if (disposed) return;
+      disposed = true;
+      const prevHook = previousHooks.get(hook) ?? null;
+      previousHooks.delete(hook);
+      // A newer inspector installed since keeps its hook, and now calls the
+      // hook that preceded this one
+      const installed = setInspectorHook(prevHook);
+      if (installed !== hook) {
+        setInspectorHook(installed);
+        for (const [next, nextPrevHook] of previousHooks) {
+          if (nextPrevHook === hook) previousHooks.set(next, prevHook);
+        }
+      }
+      ids.clear();
+    },
+  };
+}
@@ -0,0 +1,291 @@
+import { withHistory } from "./history";
+import { createReactive } from "./reactive";
+import {
+  addMiddleware,
+  configure,
+  createAsyncState,
+  createComputedState,
+  createHybridState,
+  createEffect,
+  createRoot,
+  createState,
+  flushSync,
+  freeze,
+  logger,
+  validate,
+  ValidationError,
+  type Middleware,
+  type StandardSchema,
+} from "./statemanager";
+import { expect, test, jest } from "bun:test";
+
+test("state middlewares should transform writes in order", () => {
+  const trim: Middleware<string> = { set: (value) => value.trim() };
+  const upper: Middleware<string> = { set: (value) => value.toUpperCase() };
+  const [getName, setName] = createState("", { middleware: [trim, upper] });
+
+  setName("  john ");
+
+  expect(getName()).toBe("JOHN");
+});
+
+test("a middleware should be able to ignore or reject a write", () => {
+  const readOnly: Middleware<number> = { set: (_, { prev }) => prev };
+  const [getA, setA, subscribeA] = createState(1, { middleware: [readOnly] });
+  const subscriber = jest.fn();
+  subscribeA(subscriber);
+
+  setA(2);
+  flushSync();
+
+  expect(getA()).toBe(1);
+  expect(subscriber).toHaveBeenCalledTimes(1);
+
+  const [getB, setB] = createState<number>(1, {
+    middleware: [
+      {
+        set() {
+          throw new Error("rejected");
+        },
+      },
+    ],
+  });
+
+  expect(() => setB(2)).toThrow("rejected");
+  expect(getB()).toBe(1);
+});
+
+test("global middlewares should run before the middlewares of the state", () => {
+  const calls: string[] = [];
+  const removeMiddleware = addMiddleware({
+    set(value, { name, prev }) {
+      calls.push(`global ${name} ${prev} ${value}`);
+      return value;
+    },
+  });
+  try {
+    const [, setA] = createState(0, {
+      name: "a",
+      middleware: [
+        {
+          set(value) {
+            calls.push(`local ${value}`);
+            return value;
+          },
+        },
+      ],
+    });
+
+    setA(1);
+
+    expect(calls).toEqual(["global a 0 1", "local 1"]);
+  } finally {
+    removeMiddleware();
+  }
+
+  const [, setB] = createState(0);
+  setB(1);
+  expect(calls).toHaveLength(2);
+});
+
+test("global middlewares should not run on the states of the library", async () => {
+  const seen: unknown[] = [];
+  const removeValidator = addMiddleware(
+    validate((value) => typeof value === "string" || "Only strings")
+  );
+  const removeRecorder = addMiddleware({
+    set(value) {
+      seen.push(value);
+      return value;
+    },
+    notify(value) {
+      seen.push(value);
+    },
+  });
+  try {
+    const user = createReactive({ name: "John" });
+    const names: string[] = [];
+    createRoot(() => createEffect(() => void names.push(user.name)));
+    user.name = "Jane";
+    flushSync();
+    expect(names).toEqual(["John", "Jane"]);
+
+    const text = createState("");
+    const history = withHistory(text);
+    text[1]("a");
+    flushSync();
+    expect(history.canUndo()).toBe(true);
+
+    const [, setEmail] = createState("", {
+      validate: (email) => email.includes("@") || "Invalid email",
+      invalid: "flag",
+    });
+    setEmail("john");
+    expect(setEmail.errors()).toEqual([{ message: "Invalid email" }]);
+
+    const [getUser] = createAsyncState(async () => "John");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(getUser().status).toBe("success");
+
+    // Only the string states created by the test were seen
+    expect(seen).toEqual(["a", "a", "john"]);
+  } finally {
+    removeRecorder();
+    removeValidator();
+  }
+});
+
+test("notify hooks should observe notifications after the subscribers", () => {
+  const calls: string[] = [];
+  const [getA, setA] = createState(1, { name: "a" });
+  const [, subscribeDouble] = createComputedState(() => getA() * 2, {
+    name: "double",
+    middleware: [
+      {
+        notify(value, { name, kind }) {
+          calls.push(`${kind} ${name} ${value}`);
+        },
+      },
+    ],
+  });
+  subscribeDouble((value) => calls.push(`subscriber ${value}`));
+
+  setA(2);
+  flushSync();
+
+  expect(calls).toEqual(["subscriber 2", "subscriber 4", "computed double 4"]);
+});
+
+test("errors thrown by notify hooks should be reported without aborting the flush", () => {
+  const onError = jest.fn();
+  configure({ onError });
+  try {
+    const [, setA, subscribeA] = createState(0, {
+      name: "a",
+      middleware: [
+        {
+          notify() {
+            throw new Error("boom");
+          },
+        },
+      ],
+    });
+    const subscriber = jest.fn();
+    subscribeA(subscriber);
+
+    setA(1);
+    flushSync();
+
+    expect(subscriber).toHaveBeenLastCalledWith(1);
+    expect(onError.mock.calls[0]![1]).toEqual({
+      name: "a",
+      source: "middleware",
+    });
+  } finally {
+    configure({ onError: (error) => console.error(error) });
+  }
+});
+
+test("hybrid middlewares should receive the partial overrides", () => {
+  const set = jest.fn((value: Partial<{ a: number; b: number }>) => value);
+  const [getValue, setValue] = createHybridState(
+    () => ({ a: 1, b: 2 }),
+    { a: 1, b: 2 },
+    { middleware: [{ set }] }
+  );
+
+  setValue({ b: 3 });
+
+  expect(set).toHaveBeenCalledWith(
+    { b: 3 },
+    { name: undefined, kind: "hybrid", prev: { a: 1, b: 2 } }
+  );
+  expect(getValue()).toEqual({ a: 1, b: 3 });
+});
+
+test("logger should log writes and notifications", () => {
+  const log = jest.fn();
+  const [, setA, subscribeA] = createState(0, {
+    name: "a",
+    middleware: [logger({ log })],
+  });
+  subscribeA(() => {});
+
+  setA(1);
+  flushSync();
+
+  expect(log.mock.calls).toEqual([
+    ["set", "a", 0, "->", 1],
+    ["notify", "a", 1],
+  ]);
+});
+
+test("freeze should deeply freeze written values", () => {
+  const [getItems, setItems] = createState<{ tags: string[] }>(
+    { tags: [] },
+    { clone: "none", middleware: [freeze()] }
+  );
+  const value = { tags: ["a"] };
+
+  setItems(value);
+
+  expect(getItems()).toBe(value);
+  expect(() => value.tags.push("b")).toThrow(TypeError);
+});
+
+test("validate should reject invalid writes with a ValidationError", () => {
+  const [getAge, setAge] = createState(0, {
+    name: "age",
+    middleware: [validate((age: number) => age >= 0 || "Must be positive")],
+  });
+
+  let error: unknown;
+  try {
+    setAge(-1);
+  } catch (e) {
+    error = e;
+  }
+
+  expect(error).toBeInstanceOf(ValidationError);
+  expect((error as ValidationError).issues).toEqual([
+    { message: "Must be positive" },
+  ]);
+  expect((error as ValidationError).message).toBe(
+    "Invalid value for age: Must be positive"
+  );
+  expect(getAge()).toBe(0);
+});
+
+test("validate should accept Standard Schemas and write their output", () => {
+  const schema: StandardSchema<string> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value) =>
+        typeof value === "string"
+          ? { value: value.toLowerCase() }
+          : { issues: [{ message: "Expected a string", path: [] }] },
+    },
+  };
+  const [getEmail, setEmail] = createState("", {
+    middleware: [validate(schema)],
+  });
+
+  setEmail("John@Example.com");
+  expect(getEmail()).toBe("john@example.com");
+  expect(() => setEmail(1 as any)).toThrow(ValidationError);
+
+  const asyncSchema: StandardSchema<string> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: async (value) => ({ value: value as string }),
+    },
+  };
+  const [, setAsync] = createState("", {
+    middleware: [validate(asyncSchema)],
+  });
+  expect(() => setAsync("a")).toThrow(
+    "Asynchronous validators are not supported"
+  );
+});
@@ -0,0 +1,209 @@
+import { deepFreeze } from "./strategies";
+import {
+  createValidationError,
+  runValidator,
+  type Validator,
+} from "./validation";
+
+/**
+ * Describes a write passed to the `set` hook of a middleware.
+ *
+ * @template T - The type of the state.
+ */
+export interface WriteContext<T> {
+  /** The label of the state. */
+  name?: string;
+  /** The kind of state being written. Hybrid states pass their partial overrides. */
+  kind: "state" | "hybrid";
+  /** The current value of the state. */
+  prev: T;
+}
+
+/**
+ * Describes a notification passed to the `notify` hook of a middleware.
+ */
+export interface NotifyContext {
+  /** The label of the state. */
+  name?: string;
+  /** The kind of state whose subscribers were notified. */
+  kind: "state" | "computed" | "hybrid";
+}
+
+/**
+ * Hooks run around the writes and notifications of states.
+ *
+ * @template T - The type of the state.
+ * @template P - The type of the written values, `Partial<T>` for hybrid states.
+ */
+export interface Middleware<T = any, P = T> {
+  /**
+   * Runs before a write is applied and returns the value to write instead.
+   * Throwing rejects the write and rethrows the error to the caller of the
+   * setter; returning `context.prev` ignores it.
+   */
+  set?(value: P, context: WriteContext<T>): P;
+  /**
+   * Runs after the subscribers of a state were notified during a flush.
+   * Errors are reported to the error handlers instead of aborting the flush.
+   */
+  notify?(value: T, context: NotifyContext): void;
+}
+
+// Middlewares applied to every state, in registration order.
+const globalMiddleware: Middleware[] = [];
+
+/**
+ * Registers a middleware applied to every state. Global middlewares run
+ * before the middlewares of the state, in registration order.
+ *
+ * @param {Middleware} middleware - The middleware to register.
+ * @returns {() => void} - A function removing the middleware.
+ *
+ * @example
+ * ```typescript
+ * const removeLogger = addMiddleware(logger());
+ * removeLogger();
+ * ```
+ */
+export function addMiddleware(middleware: Middleware): () => void {
+  globalMiddleware.push(middleware);
+  return () => {
+    const index = globalMiddleware.indexOf(middleware);
+    if (index !== -1) globalMiddleware.splice(index, 1);
+  };
+}
+
+/**
+ * Runs the `set` hooks of the global middlewares, then those of a state.
+ *
+ * @template T - The type of the state.
+ * @template P - The type of the written value.
+ * @param {readonly Middleware<T, P>[] | undefined} middleware - The middlewares of the state.
+ * @param {P} value - The value being written.
+ * @param {WriteContext<T>} context - The state being written.
+ * @returns {P} - The value to write.
+ */
+export function applySetMiddleware<T, P>(
+  middleware: readonly Middleware<T, P>[] | undefined,
+  value: P,
+  context: WriteContext<T>
+): P {
+  for (const { set } of globalMiddleware) {
+    if (set) value = set(value, context);
+  }
+  for (const { set } of middleware ?? []) {
+    if (set) value = set(value, context);
+  }
+  return value;
+}
+
+/**
+ * Runs the `notify` hooks of the global middlewares, then those of a state,
+ * passing their errors to `onError`.
+ *
+ * @template T - The type of the state.
+ * @param {readonly Middleware<T, any>[] | undefined} middleware - The middlewares of the state.
+ * @param {T} value - The value the subscribers received.
+ * @param {NotifyContext} context - The state that was notified.
+ * @param {(error: unknown) => void} onError - Receives the errors of the hooks.
+ */
+export function applyNotifyMiddleware<T>(
+  middleware: readonly Middleware<T, any>[] | undefined,
+  value: T,
+  context: NotifyContext,
+  onError: (error: unknown) => void
+): void {
+  for (const { notify } of [...globalMiddleware, ...(middleware ?? [])]) {
+    if (!notify) continue;
+    try {
+      notify(value, context);
+    } catch (error) {
+      onError(error);
+    }
+  }
+}
+
+/**
+ * Options accepted by the `logger` middleware.
+ */
+export interface LoggerOptions {
+  /** Receives the log lines. Defaults to `console.log`. */
+  log?: (...args: unknown[]) => void;
+  /** Only logs the states for which it returns true. */
+  filter?: (name: string | undefined) => boolean;
+}
+
+/**
+ * Creates a middleware logging every write and notification.
+ *
+ * @param {LoggerOptions} [options] - Where to log and which states.
+ * @returns {Middleware} - The middleware.
+ *
+ * @example
+ * ```typescript
+ * addMiddleware(logger({ filter: (name) => name?.startsWith("cart") ?? false }));
+ * // set cart.items [] -> ["apple"]
+ * // notify cart.items ["apple"]
+ * ```
+ */
+export function logger(options: LoggerOptions = {}): Middleware {
+  const { log = console.log, filter = () => true } = options;
+  return {
+    set(value, { name, prev }) {
+      if (filter(name)) log("set", name ?? "<anonymous>", prev, "->", value);
+      return value;
+    },
+    notify(value, { name }) {
+      if (filter(name)) log("notify", name ?? "<anonymous>", value);
+    },
+  };
+}
+
+/**
+ * Creates a middleware deeply freezing every written value, so that code
+ * mutating a value after passing it to a setter throws. Meant for
+ * development, together with the `clone: "none"` strategy, which stores the
+ * written value itself.
+ *
+ * @returns {Middleware} - The middleware.
+ *
+ * @example
+ * ```typescript
+ * const [getItems, setItems] = createState<string[]>([], {
+ *   clone: "none",
+ *   middleware: process.env.NODE_ENV === "production" ? [] : [freeze()],
+ * });
+ * ```
+ */
+export function freeze(): Middleware {
+  return {
+    set: (value) => deepFreeze(value),
+  };
+}
+
+/**
+ * Creates a middleware rejecting writes that fail validation with a
+ * `ValidationError`. Standard Schemas may also transform the value, for
+ * example by applying defaults; the transformed value is the one written.
+ *
+ * @template T - The type of the state.
+ * @param {Validator<T>} validator - The schema or predicate checking every written value.
+ * @returns {Middleware<T>} - The middleware.
+ *
+ * @example
+ * ```typescript
+ * const [getAge, setAge] = createState(0, {
+ *   middleware: [validate((age: number) => age >= 0 || "Age must be positive")],
+ * });
+ * setAge(-1); // Throws a ValidationError
+ * ```
+ */
+export function validate<T>(validator: Validator<T>): Middleware<T> {
+  return {
+    set(value, { name }) {
+      const result = runValidator(validator, value);
+      if (result.issues) throw createValidationError(name, result.issues);
+      return result.value;
+    },
+  };
+}
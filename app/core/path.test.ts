@@ -0,0 +1,55 @@
+import { getIn, setIn } from "./path";
+import { expect, test } from "bun:test";
+
+interface User {
+  name: { first: string; last: string };
+  tags: string[];
+  address?: { city: string };
+}
+
+const user: User = {
+  name: { first: "John", last: "Doe" },
+  tags: ["admin"],
+};
+
+test("getIn should read nested values", () => {
+  expect(getIn(user, ["name", "first"])).toBe("John");
+  expect(getIn(user, ["tags", 0])).toBe("admin");
+  expect(getIn(user, ["address", "city"])).toBeUndefined();
+});
+
+test("setIn should return an updated copy and share untouched branches", () => {
+  const next = setIn(user, ["name", "first"], "Jane");
+
+  expect(next).toEqual({
+    name: { first: "Jane", last: "Doe" },
+    tags: ["admin"],
+  });
+  expect(user.name.first).toBe("John");
+  expect(next.tags).toBe(user.tags);
+  expect(next.name).not.toBe(user.name);
+});
+
+test("setIn should copy arrays along the path", () => {
+  const next = setIn(user, ["tags", 1], "editor");
+
+  expect(next.tags).toEqual(["admin", "editor"]);
+  expect(Array.isArray(next.tags)).toBe(true);
+  expect(user.tags).toEqual(["admin"]);
+});
+
+test("setIn should create missing intermediate objects", () => {
+  const next = setIn(user, ["address", "city"], "Paris");
+  expect(next.address).toEqual({ city: "Paris" });
+});
+
+test("setIn should return the same value when nothing changes", () => {
+  expect(setIn(user, ["name", "first"], "John")).toBe(user);
+});
+
+test("setIn should infer path and value types", () => {
+  // @ts-expect-error - unknown key
+  setIn(user, ["name", "middle"], "X");
+  // @ts-expect-error - wrong value type
+  setIn(user, ["name", "first"], 42);
+});
@@ -0,0 +1,132 @@
+/**
+ * Maximum nesting depth explored when inferring paths, to keep recursive
+ * types from exploding.
+ */
+type MaxDepth = 8;
+
+/**
+ * Every path into a value, as a tuple of keys. Arrays are indexed by number.
+ *
+ * @template T - The type of the value.
+ *
+ * @example
+ * ```typescript
+ * type P = Path<{ name: { first: string }; tags: string[] }>;
+ * // ["name"] | ["name", "first"] | ["tags"] | ["tags", number]
+ * ```
+ */
+export type Path<
+  T,
+  Depth extends unknown[] = [],
+> = Depth["length"] extends MaxDepth
+  ? never
+  : T extends (...args: any[]) => any
+    ? never
+    : T extends readonly (infer E)[]
+      ? [number] | [number, ...Path<E, [...Depth, unknown]>]
+      : T extends object
+        ? {
+            [K in keyof T & (string | number)]-?:
+              [K] | [K, ...Path<T[K], [...Depth, unknown]>];
+          }[keyof T & (string | number)]
+        : never;
+
+/**
+ * The type of the value found at a path.
+ *
+ * @template T - The type of the value.
+ * @template P - The path into the value.
+ */
+export type PathValue<T, P extends readonly unknown[]> = P extends [
+  infer K,
+  ...infer Rest,
+]
+  ? NonNullable<T> extends readonly (infer E)[]
+    ? PathValue<E, Rest>
+    : K extends keyof NonNullable<T>
+      ? PathValue<NonNullable<T>[K], Rest>
+      : never
+  : T;
+
+/**
+ * Reads the value found at a path. Missing intermediate values yield
+ * `undefined`.
+ *
+ * @template T - The type of the value.
+ * @template P - The path into the value.
+ * @param {T} value - The value to read from.
+ * @param {P} path - The path to read.
+ * @returns {PathValue<T, P>} - The value at the path.
+ */
+export function getIn<T, P extends Path<T>>(
+  value: T,
+  path: P
+): PathValue<T, P> {
+  let current: any = value;
+  for (const key of path as PropertyKey[]) {
+    if (current === null || current === undefined) return undefined as any;
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Returns a copy of a value with the value at a path replaced. Only the
+ * objects along the path are copied; everything else is shared with the
+ * original. Missing intermediate values are created as objects, or arrays
+ * when the next key is a number.
+ *
+ * @template T - The type of the value.
+ * @template P - The path into the value.
+ * @param {T} value - The value to update.
+ * @param {P} path - The path to update.
+ * @param {PathValue<T, P>} next - The value to place at the path.
+ * @returns {T} - The updated copy.
+ *
+ * @example
+ * ```typescript
+ * const user = { name: { first: "John", last: "Doe" } };
+ * const next = setIn(user, ["name", "first"], "Jane");
+ * // next.name.last === "Doe", user.name.first === "John"
+ * ```
+ */
+export function setIn<T, P extends Path<T>>(
+  value: T,
+  path: P,
+  next: PathValue<T, P>
+): T {
+  return assign(value, path as PropertyKey[], 0, next);
+}
+
+/**
+ * Recursive helper for `setIn`.
+ *
+ * @param {any} value - The value at the current depth.
+ * @param {PropertyKey[]} path - The full path.
+ * @param {number} index - The current depth in the path.
+ * @param {unknown} next - The value to place at the end of the path.
+ * @returns {any} - The updated copy of the value at the current depth.
+ */
+function assign(
+  value: any,
+  path: PropertyKey[],
+  index: number,
+  next: unknown
+): any {
+  if (index === path.length) return next;
+  const key = path[index];
+  const current =
+    value === null || value === undefined
+      ? typeof key === "number"
+        ? []
+        : {}
+      : value;
+  const updated = assign(current[key], path, index + 1, next);
+  if (Object.is(current[key], updated) && current === value) return value;
+
+  const copy = Array.isArray(current)
+    ? current.slice()
+    : Object.assign(Object.create(Object.getPrototypeOf(current)), current);
+  copy[key] = updated;
+  return copy;
+}
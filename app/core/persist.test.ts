@@ -0,0 +1,226 @@
+import {
+  fileStorage,
+  persist,
+  webStorage,
+  type PersistStorage,
+} from "./persist";
+import { createHybridState, createState, flushSync } from "./statemanager";
+import { expect, test, jest } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * Creates an in-memory storage, optionally answering asynchronously.
+ */
+function createMemoryStorage(
+  initial: Record<string, string> = {},
+  async = false
+) {
+  const data = new Map(Object.entries(initial));
+  const setItem = jest.fn((key: string, value: string) => {
+    data.set(key, value);
+  });
+  const storage: PersistStorage = {
+    getItem: (key) => {
+      const value = data.get(key) ?? null;
+      return async ? Promise.resolve(value) : value;
+    },
+    setItem,
+    removeItem: (key) => {
+      data.delete(key);
+    },
+  };
+  return { data, setItem, storage };
+}
+
+test("persist should restore the stored value without writing it back", () => {
+  const { storage, setItem } = createMemoryStorage({
+    counter: JSON.stringify({ version: 0, value: 5 }),
+  });
+  const counter = createState(0);
+  persist(counter, { key: "counter", storage, throttle: 0 });
+  const [getCount, , subscribeCount] = counter;
+  const subscriber = jest.fn();
+  subscribeCount(subscriber);
+  flushSync();
+
+  expect(getCount()).toBe(5);
+  expect(subscriber).toHaveBeenCalledTimes(1);
+  expect(subscriber).toHaveBeenCalledWith(5);
+  expect(setItem).not.toHaveBeenCalled();
+});
+
+test("persist should write changes with their version", async () => {
+  const { storage, data } = createMemoryStorage();
+  const counter = createState(0);
+  const handle = persist(counter, {
+    key: "counter",
+    storage,
+    version: 3,
+    throttle: 0,
+  });
+
+  counter[1](7);
+  flushSync();
+  await handle.flush();
+
+  expect(JSON.parse(data.get("counter")!)).toEqual({ version: 3, value: 7 });
+});
+
+test("persist should throttle writes and keep the latest value", async () => {
+  const { storage, setItem, data } = createMemoryStorage();
+  const counter = createState(0);
+  const handle = persist(counter, { key: "counter", storage, throttle: 20 });
+  for (let i = 1; i <= 3; i++) {
+    counter[1](i);
+    flushSync();
+  }
+
+  expect(setItem).not.toHaveBeenCalled();
+
+  await new Promise((resolve) => setTimeout(resolve, 40));
+
+  expect(setItem).toHaveBeenCalledTimes(1);
+  expect(JSON.parse(data.get("counter")!).value).toBe(3);
+
+  counter[1](4);
+  flushSync();
+  await handle.flush();
+
+  expect(setItem).toHaveBeenCalledTimes(2);
+  expect(JSON.parse(data.get("counter")!).value).toBe(4);
+  handle.dispose();
+});
+
+test("persist should migrate values stored with another version", () => {
+  const { storage } = createMemoryStorage({
+    user: JSON.stringify({ version: 1, value: { fullName: "John Doe" } }),
+    legacy: JSON.stringify({ version: 1, value: "old" }),
+  });
+  const user = createState({ first: "", last: "" });
+  const migrate = jest.fn((value: any, version: number) => {
+    const [first = "", last = ""] = value.fullName.split(" ");
+    return version === 1 ? { first, last } : { first: "", last: "" };
+  });
+  persist(user, { key: "user", storage, version: 2, migrate });
+
+  expect(user[0]()).toEqual({ first: "John", last: "Doe" });
+  expect(migrate).toHaveBeenCalledWith({ fullName: "John Doe" }, 1);
+
+  const legacy = createState("new");
+  persist(legacy, { key: "legacy", storage, version: 2 });
+
+  expect(legacy[0]()).toBe("new");
+});
+
+test("persist should apply values from asynchronous storages", async () => {
+  const { storage } = createMemoryStorage(
+    { a: JSON.stringify({ version: 0, value: 1 }) },
+    true
+  );
+  const a = createState(0);
+  const handle = persist(a, { key: "a", storage });
+
+  expect(a[0]()).toBe(0);
+  await handle.hydrated;
+  expect(a[0]()).toBe(1);
+
+  const b = createState(0);
+  const { storage: slow } = createMemoryStorage(
+    { b: JSON.stringify({ version: 0, value: 1 }) },
+    true
+  );
+  const handleB = persist(b, { key: "b", storage: slow, throttle: 0 });
+  b[1](2);
+  flushSync();
+  await handleB.hydrated;
+
+  expect(b[0]()).toBe(2);
+});
+
+test("persist should only store the overrides of hybrid states", async () => {
+  const { storage, data } = createMemoryStorage({
+    user: JSON.stringify({ version: 0, value: { last: "Smith" } }),
+  });
+  const [getSource, setSource] = createState("John");
+  const user = createHybridState(() => ({ first: getSource(), last: "Doe" }), {
+    first: "",
+    last: "",
+  });
+  const handle = persist(user, { key: "user", storage, throttle: 0 });
+  const [getUser, setUser, subscribeUser] = user;
+  subscribeUser(() => {});
+
+  expect(getUser()).toEqual({ first: "John", last: "Smith" });
+
+  setSource("Jane");
+  setUser({ first: "Janet" });
+  flushSync();
+  await handle.flush();
+
+  expect(JSON.parse(data.get("user")!).value).toEqual({
+    first: "Janet",
+    last: "Smith",
+  });
+
+  setUser.reset();
+  flushSync();
+  await handle.flush();
+
+  expect(JSON.parse(data.get("user")!).value).toEqual({});
+});
+
+test("persist should report storage and parse errors", () => {
+  const onError = jest.fn();
+  const { storage } = createMemoryStorage({ broken: "{" });
+  const broken = createState(1);
+  persist(broken, { key: "broken", storage, onError });
+
+  expect(broken[0]()).toBe(1);
+  expect(onError).toHaveBeenCalledTimes(1);
+});
+
+test("clear should remove the stored value", async () => {
+  const { storage, data } = createMemoryStorage();
+  const counter = createState(0);
+  const handle = persist(counter, { key: "counter", storage, throttle: 0 });
+  counter[1](1);
+  flushSync();
+  await handle.flush();
+
+  await handle.clear();
+
+  expect(data.has("counter")).toBe(false);
+});
+
+test("webStorage should read and write through the given storage", () => {
+  const data = new Map<string, string>();
+  const storage = webStorage({
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => data.set(key, value),
+    removeItem: (key: string) => data.delete(key),
+  } as unknown as Storage);
+
+  storage.setItem("a", "1");
+  expect(storage.getItem("a")).toBe("1");
+  storage.removeItem("a");
+  expect(storage.getItem("a")).toBeNull();
+});
+
+test("fileStorage should keep every key in one JSON file", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "kraai-"));
+  try {
+    const path = join(dir, "state.json");
+    const storage = fileStorage(path);
+
+    expect(await storage.getItem("a")).toBeNull();
+    await Promise.all([storage.setItem("a", "1"), storage.setItem("b", "2")]);
+    await storage.removeItem("b");
+
+    expect(await Bun.file(path).json()).toEqual({ a: "1" });
+    expect(await fileStorage(path).getItem("a")).toBe("1");
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,310 @@
+import {
+  flushSync,
+  type Getter,
+  type HybridSetter,
+  type Setter,
+  type SubscriberFn,
+} from "./statemanager";
+
+/**
+ * Key-value storage used to persist states. Every method may be synchronous
+ * or return a promise.
+ */
+export interface PersistStorage {
+  /** Returns the stored string, or `null` when nothing is stored. */
+  getItem(key: string): string | null | Promise<string | null>;
+  /** Stores a string. */
+  setItem(key: string, value: string): void | Promise<void>;
+  /** Removes the stored string. */
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Data written to storage: the persisted value tagged with its schema
+ * version.
+ *
+ * @template T - The type of the persisted value.
+ */
+export interface PersistedState<T> {
+  version: number;
+  value: T;
+}
+
+/**
+ * Options accepted by `persist`.
+ *
+ * @template T - The type of the persisted value.
+ */
+export interface PersistOptions<T> {
+  /** Key under which the value is stored. */
+  key: string;
+  /** Where the value is stored. Defaults to `localStorage`. */
+  storage?: PersistStorage;
+  /** Turns the persisted data into a string. Defaults to `JSON.stringify`. */
+  serialize?: (state: PersistedState<T>) => string;
+  /** Turns a stored string back into persisted data. Defaults to `JSON.parse`. */
+  deserialize?: (data: string) => PersistedState<T>;
+  /** Schema version of the value. Defaults to 0. */
+  version?: number;
+  /**
+   * Converts a value stored with another version. Without it, values stored
+   * with another version are ignored.
+   */
+  migrate?: (value: any, version: number) => T;
+  /**
+   * Minimum delay between two writes in milliseconds. Changes made in between
+   * are written together. With 0, every change is written immediately.
+   * Defaults to 100.
+   */
+  throttle?: number;
+  /** Receives storage and serialization errors. Defaults to `console.error`. */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Handle returned by `persist`.
+ */
+export interface Persistence {
+  /** Resolves once the stored value was read and applied to the state. */
+  hydrated: Promise<void>;
+  /** Writes the pending change immediately. */
+  flush(): Promise<void>;
+  /** Removes the stored value, dropping the pending change. */
+  clear(): Promise<void>;
+  /** Writes the pending change and stops persisting the state. */
+  dispose(): void;
+}
+
+/**
+ * Checks whether a value returned by a storage is a promise.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} - Returns true for promises and other thenables.
+ */
+function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+  return typeof (value as any)?.then === "function";
+}
+
+/**
+ * Persists a state: its value is restored from storage, then written back
+ * whenever it changes. Hybrid states only persist their manual overrides, so
+ * the computed keys keep following their dependencies.
+ *
+ * The restored value is applied without writing it back, and pending
+ * notifications are flushed right away when the storage is synchronous, so
+ * subscribers added afterwards are only called once with it. A change made
+ * to the state before an asynchronous storage answered wins over the stored
+ * value.
+ *
+ * @template T - The type of the state.
+ * @param {[Getter<T>, Setter<T>, SubscriberFn<T>]} state - The tuple returned by `createState` or `createHybridState`.
+ * @param {PersistOptions<T>} options - The storage key and persistence options.
+ * @returns {Persistence} - The handle controlling the persistence.
+ *
+ * @example
+ * ```typescript
+ * const counter = createState(0);
+ * persist(counter, {
+ *   key: "counter",
+ *   version: 2,
+ *   migrate: (value, version) => (version === 1 ? value.count : 0),
+ * });
+ * const [getCount, setCount, subscribeCount] = counter;
+ * subscribeCount(render); // Called once, with the stored value
+ * ```
+ */
+export function persist<T, P>(
+  state: [Getter<T>, HybridSetter<T, P>, SubscriberFn<T>],
+  options: PersistOptions<P>
+): Persistence;
+export function persist<T>(
+  state: [Getter<T>, Setter<T>, SubscriberFn<T>],
+  options: PersistOptions<T>
+): Persistence;
+export function persist(
+  [get, set, subscribe]: [
+    Getter<any>,
+    Setter<any> | HybridSetter<any, any>,
+    SubscriberFn<any>,
+  ],
+  options: PersistOptions<any>
+): Persistence {
+  const {
+    key,
+    storage = webStorage(),
+    serialize = JSON.stringify,
+    deserialize = JSON.parse,
+    version = 0,
+    migrate,
+    throttle = 100,
+    onError = (error) => console.error(error),
+  } = options;
+
+  const read = (): unknown => {
+    if (!("overrides" in set)) return get();
+    const value = get();
+    const overrides: Record<PropertyKey, unknown> = {};
+    for (const overridden of set.overrides().overridden) {
+      overrides[overridden] = value[overridden];
+    }
+    return overrides;
+  };
+
+  let initialized = false;
+  let changed = false;
+  let dirty = false;
+  let disposed = false;
+  let hydratedValue: unknown;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let writing = Promise.resolve();
+
+  const write = (): Promise<void> => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (!dirty) return writing;
+    dirty = false;
+    writing = writing
+      .then(() => storage.setItem(key, serialize({ version, value: read() })))
+      .catch(onError);
+    return writing;
+  };
+
+  const unsubscribe = subscribe((value) => {
+    // Skip the initial call and the notification of the restored value
+    if (!initialized) {
+      initialized = true;
+      return;
+    }
+    if (value === hydratedValue) return;
+    changed = true;
+    dirty = true;
+    if (throttle <= 0) {
+      write();
+    } else if (timer === undefined) {
+      timer = setTimeout(write, throttle);
+    }
+  });
+
+  const hydrate = (data: string | null): void => {
+    if (data === null || changed || disposed) return;
+    const persisted = deserialize(data);
+    let value = persisted.value;
+    if (persisted.version !== version) {
+      if (!migrate) return;
+      value = migrate(value, persisted.version);
+    }
+    set(() => value);
+    hydratedValue = get();
+  };
+
+  let hydrated: Promise<void>;
+  try {
+    const data = storage.getItem(key);
+    if (isPromise(data)) {
+      hydrated = data.then(hydrate).catch(onError);
+    } else {
+      hydrate(data);
+      flushSync();
+      hydrated = Promise.resolve();
+    }
+  } catch (error) {
+    onError(error);
+    hydrated = Promise.resolve();
+  }
+
+  return {
+    hydrated,
+    flush: write,
+    async clear(): Promise<void> {
+      clearTimeout(timer);
+      timer = undefined;
+      dirty = false;
+      await writing;
+      try {
+        await storage.removeItem(key);
+      } catch (error) {
+        onError(error);
+      }
+    },
+    dispose(): void {
+      if (disposed) return;
+      disposed = true;
+      unsubscribe();
+      write();
+    },
+  };
+}
+
+/**
+ * Creates a storage backed by the Web Storage API.
+ *
+ * @param {Storage} [storage] - The storage to use. Defaults to `localStorage`, resolved on every call.
+ * @returns {PersistStorage} - The storage adapter.
+ *
+ * @example
+ * ```typescript
+ * persist(createState(""), { key: "draft", storage: webStorage(sessionStorage) });
+ * ```
+ */
+export function webStorage(storage?: Storage): PersistStorage {
+  return {
+    getItem: (key) => (storage ?? localStorage).getItem(key),
+    setItem: (key, value) => (storage ?? localStorage).setItem(key, value),
+    removeItem: (key) => (storage ?? localStorage).removeItem(key),
+  };
+}
+
+/**
+ * Creates a storage keeping every key in one JSON file, using the Bun file
+ * API. The file is read once; writes are queued so that they never overlap.
+ *
+ * @param {string} path - The path of the JSON file. It is created on the first write.
+ * @returns {PersistStorage} - The storage adapter.
+ *
+ * @example
+ * ```typescript
+ * persist(createState({ theme: "dark" }), {
+ *   key: "settings",
+ *   storage: fileStorage("./data/state.json"),
+ * });
+ * ```
+ */
+export function fileStorage(path: string): PersistStorage {
+  let entries: Promise<Record<string, string>> | undefined;
+  let queue = Promise.resolve();
+
+  const load = (): Promise<Record<string, string>> => {
+    entries ??= Bun.file(path)
+      .exists()
+      .then((exists) => (exists ? Bun.file(path).json() : {}));
+    return entries;
+  };
+
+  const update = (
+    change: (entries: Record<string, string>) => void
+  ): Promise<void> => {
+    const next = queue.then(async () => {
+      const data = await load();
+      change(data);
+      await Bun.write(path, JSON.stringify(data, null, 2));
+    });
+    // A failed write must not block the following ones
+    queue = next.catch(() => {});
+    return next;
+  };
+
+  return {
+    async getItem(key) {
+      const data = await load();
+      return Object.hasOwn(data, key) ? data[key]! : null;
+    },
+    setItem: (key, value) =>
+      update((data) => {
+        data[key] = value;
+      }),
+    removeItem: (key) =>
+      update((data) => {
+        delete data[key];
+      }),
+  };
+}
@@ -0,0 +1,54 @@
+import { subscribeStore, useKraai } from "./react";
+import { createComputedState, createState, flushSync } from "./statemanager";
+import { expect, jest, test } from "bun:test";
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+
+test("useKraai should render the current value of a state", () => {
+  const [getCount, setCount, subscribeCount] = createState(1);
+  const [getDouble, subscribeDouble] = createComputedState(
+    () => getCount() * 2
+  );
+  const Counter = () => {
+    const count = useKraai(getCount, subscribeCount);
+    const double = useKraai(getDouble, subscribeDouble);
+    return createElement("p", null, `${count} ${double}`);
+  };
+
+  expect(renderToString(createElement(Counter))).toBe("<p>1 2</p>");
+
+  setCount(2);
+
+  expect(renderToString(createElement(Counter))).toBe("<p>2 4</p>");
+});
+
+test("subscribeStore should only call onStoreChange for changes", () => {
+  const [, setCount, subscribeCount] = createState(0);
+  const onStoreChange = jest.fn();
+
+  const unsubscribe = subscribeStore(subscribeCount, onStoreChange);
+  flushSync();
+  expect(onStoreChange).not.toHaveBeenCalled();
+
+  setCount(1);
+  flushSync();
+  expect(onStoreChange).toHaveBeenCalledTimes(1);
+
+  unsubscribe();
+  setCount(2);
+  flushSync();
+  expect(onStoreChange).toHaveBeenCalledTimes(1);
+});
+
+test("subscribeStore should call onStoreChange once per flushed change of a computed state", () => {
+  const [getCount, setCount] = createState(0);
+  const [, subscribeDouble] = createComputedState(() => getCount() * 2);
+  const onStoreChange = jest.fn();
+  subscribeStore(subscribeDouble, onStoreChange);
+
+  setCount(1);
+  setCount(2);
+  flushSync();
+
+  expect(onStoreChange).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,64 @@
+import { useCallback, useSyncExternalStore } from "react";
+import type { Getter, SubscriberFn } from "./statemanager";
+
+/**
+ * Subscribes to a state the way `useSyncExternalStore` expects: the callback
+ * is only called for changes, not with the current value the subscriber
+ * receives immediately.
+ *
+ * @template T - The type of the state.
+ * @param {SubscriberFn<T>} subscribe - The subscribe function of the state.
+ * @param {() => void} onStoreChange - Called after every change.
+ * @returns {() => void} - Unsubscribes.
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = subscribeStore(subscribeCount, () => {
+ *   console.log("count changed");
+ * });
+ * ```
+ */
+export function subscribeStore<T>(
+  subscribe: SubscriberFn<T>,
+  onStoreChange: () => void
+): () => void {
+  let initial = true;
+  const unsubscribe = subscribe(() => {
+    if (!initial) onStoreChange();
+  });
+  initial = false;
+  return unsubscribe;
+}
+
+/**
+ * Reads a state in a React component and rerenders the component when it
+ * changes. Works with the getter and subscribe function of every kind of
+ * state, and with `store.getSnapshot` and `store.subscribe`.
+ *
+ * Subscribers are called immediately with the current value, which React
+ * already read from the getter, so that first call is skipped. Pass stable
+ * functions, such as those returned by the create functions, to avoid
+ * resubscribing on every render.
+ *
+ * @template T - The type of the state.
+ * @param {Getter<T>} get - The getter of the state.
+ * @param {SubscriberFn<T>} subscribe - The subscribe function of the state.
+ * @returns {T} - The current value of the state.
+ *
+ * @example
+ * ```tsx
+ * const [getCount, setCount, subscribeCount] = createState(0);
+ *
+ * function Counter() {
+ *   const count = useKraai(getCount, subscribeCount);
+ *   return <button onClick={() => setCount(count + 1)}>{count}</button>;
+ * }
+ * ```
+ */
+export function useKraai<T>(get: Getter<T>, subscribe: SubscriberFn<T>): T {
+  const subscribeToChanges = useCallback(
+    (onStoreChange: () => void) => subscribeStore(subscribe, onStoreChange),
+    [subscribe]
+  );
+  return useSyncExternalStore(subscribeToChanges, get, get);
+}
@@ -0,0 +1,232 @@
+import { createInspector } from "./inspector";
+import { createReactive, isReactive, toRaw } from "./reactive";
+import {
+  createComputedState,
+  createEffect,
+  createRoot,
+  flushSync,
+  untrack,
+} from "./statemanager";
+import { expect, test, jest } from "bun:test";
+
+test("createReactive should only recompute states that read the changed key", () => {
+  const user = createReactive({
+    name: { first: "John", last: "Doe" },
+    age: 30,
+  });
+  const first = jest.fn(() => user.name.first);
+  const age = jest.fn(() => user.age);
+  const [, subscribeFirst] = createComputedState(first);
+  const [, subscribeAge] = createComputedState(age);
+  const onFirst = jest.fn();
+  subscribeFirst(onFirst);
+  subscribeAge(() => {});
+
+  user.name.last = "Smith";
+  user.age = 31;
+  flushSync();
+
+  expect(first).toHaveBeenCalledTimes(1);
+  expect(age).toHaveBeenCalledTimes(2);
+
+  user.name.first = "Jane";
+  flushSync();
+
+  expect(onFirst).toHaveBeenLastCalledWith("Jane");
+  expect(first).toHaveBeenCalledTimes(2);
+});
+
+test("reads outside of a computation should not create triggers", () => {
+  const inspector = createInspector();
+  try {
+    const state = createReactive<Record<string, number>>({});
+    for (let i = 0; i < 1000; i++) state[`key${i}`] = i;
+
+    let total = 0;
+    for (let i = 0; i < 1000; i++) total += state[`key${i}`]!;
+    createRoot(() =>
+      createEffect(() => {
+        untrack(() => state["key0"]);
+      })
+    );
+
+    expect(total).toBe(499500);
+    expect(inspector.snapshot().nodes.map((node) => node.kind)).toEqual([
+      "effect",
+    ]);
+  } finally {
+    inspector.dispose();
+  }
+});
+
+test("replacing a nested object should notify readers of its keys", () => {
+  const user = createReactive({ name: { first: "John" } });
+  const [getFirst] = createComputedState(() => user.name.first);
+  const [, subscribe] = createComputedState(getFirst);
+  subscribe(() => {});
+
+  user.name = { first: "Jane" };
+  flushSync();
+
+  expect(getFirst()).toBe("Jane");
+});
+
+test("adding and deleting keys should notify readers of the key list", () => {
+  const tags = createReactive<Record<string, boolean>>({ admin: true });
+  const [getKeys, subscribeKeys] = createComputedState(() => Object.keys(tags));
+  const [getHas, subscribeHas] = createComputedState(() => "editor" in tags);
+  subscribeKeys(() => {});
+  subscribeHas(() => {});
+
+  tags["editor"] = true;
+  flushSync();
+
+  expect(getKeys()).toEqual(["admin", "editor"]);
+  expect(getHas()).toBe(true);
+
+  delete tags["admin"];
+  flushSync();
+
+  expect(getKeys()).toEqual(["editor"]);
+});
+
+test("reactive arrays should track indices, length and mutation methods", () => {
+  const list = createReactive([1, 2, 3]);
+  const [getSum, subscribeSum] = createComputedState(() =>
+    list.reduce((sum, value) => sum + value, 0)
+  );
+  const second = jest.fn(() => list[1]);
+  const [, subscribeSecond] = createComputedState(second);
+  subscribeSum(() => {});
+  subscribeSecond(() => {});
+
+  list.push(4);
+  flushSync();
+
+  expect(getSum()).toBe(10);
+  expect(second).toHaveBeenCalledTimes(1);
+
+  list.splice(0, 2);
+  flushSync();
+
+  expect(getSum()).toBe(7);
+  expect(second).toHaveBeenCalledTimes(2);
+
+  list.length = 0;
+  flushSync();
+
+  expect(getSum()).toBe(0);
+});
+
+test("array searches should find wrapped objects and track value changes", () => {
+  const item = { id: 1 };
+  const list = createReactive([item]);
+  const [getIndex, subscribeIndex] = createComputedState(() =>
+    list.indexOf(item)
+  );
+  subscribeIndex(() => {});
+
+  expect(list.includes(list[0]!)).toBe(true);
+  expect(getIndex()).toBe(0);
+
+  list[0] = { id: 2 };
+  flushSync();
+
+  expect(getIndex()).toBe(-1);
+});
+
+test("mutating an array inside an effect should not track the array", () => {
+  const source = createReactive({ count: 0 });
+  const log = createReactive<number[]>([]);
+  const runs = jest.fn();
+  createRoot((disposeRoot) => {
+    createEffect(() => {
+      runs();
+      log.push(source.count);
+    });
+
+    log.push(-1);
+    flushSync();
+    source.count = 1;
+    flushSync();
+
+    expect(runs).toHaveBeenCalledTimes(2);
+    expect(toRaw(log)).toEqual([0, -1, 1]);
+    disposeRoot();
+  });
+});
+
+test("reactive Maps should track keys, size and iteration", () => {
+  const scores = createReactive(new Map([["john", 1]]));
+  const john = jest.fn(() => scores.get("john"));
+  const [, subscribeJohn] = createComputedState(john);
+  const [getTotal, subscribeTotal] = createComputedState(() => {
+    let total = 0;
+    for (const [, score] of scores) total += score;
+    return total;
+  });
+  const [getSize, subscribeSize] = createComputedState(() => scores.size);
+  subscribeJohn(() => {});
+  subscribeTotal(() => {});
+  subscribeSize(() => {});
+
+  scores.set("jane", 2);
+  flushSync();
+
+  expect(john).toHaveBeenCalledTimes(1);
+  expect(getTotal()).toBe(3);
+  expect(getSize()).toBe(2);
+
+  scores.set("john", 5);
+  flushSync();
+
+  expect(john).toHaveBeenCalledTimes(2);
+  expect(getTotal()).toBe(7);
+
+  scores.clear();
+  flushSync();
+
+  expect(getTotal()).toBe(0);
+  expect(getSize()).toBe(0);
+});
+
+test("reactive Sets should track membership and wrap nested values", () => {
+  const selected = createReactive(new Set<string>());
+  const [getHas, subscribeHas] = createComputedState(() => selected.has("a"));
+  const [getValues, subscribeValues] = createComputedState(() =>
+    Array.from(selected.values())
+  );
+  subscribeHas(() => {});
+  subscribeValues(() => {});
+
+  selected.add("b");
+  flushSync();
+
+  expect(getHas()).toBe(false);
+  expect(getValues()).toEqual(["b"]);
+
+  selected.add("a");
+  selected.delete("b");
+  flushSync();
+
+  expect(getHas()).toBe(true);
+  expect(getValues()).toEqual(["a"]);
+
+  const nested = createReactive(new Map([["user", { name: "John" }]]));
+  expect(isReactive(nested.get("user"))).toBe(true);
+});
+
+test("createReactive should return the same proxy for the same object", () => {
+  const raw = { nested: { value: 1 } };
+  const proxy = createReactive(raw);
+
+  expect(createReactive(raw)).toBe(proxy);
+  expect(createReactive(proxy)).toBe(proxy);
+  expect(proxy.nested).toBe(proxy.nested);
+  expect(toRaw(proxy)).toBe(raw);
+  expect(isReactive(proxy)).toBe(true);
+  expect(isReactive(raw)).toBe(false);
+
+  proxy.nested = createReactive({ value: 2 });
+  expect(isReactive(raw.nested)).toBe(false);
+});
@@ -0,0 +1,401 @@
+import { createRoot, createState, isTracking, untrack } from "./statemanager";
+
+/**
+ * Tracks the reads of one key of an object and notifies its readers when the
+ * key changes.
+ */
+interface Trigger {
+  /** Registers the key as a dependency of the running computation. */
+  track(): void;
+  /** Marks every computation that read the key as dirty. */
+  trigger(): void;
+}
+
+/** Key tracking the list of keys of an object, and the entries of a Map or Set. */
+const ITERATE = Symbol("iterate");
+
+/** Key returning the wrapped object when read on a reactive proxy. */
+const RAW = Symbol("raw");
+
+/** Triggers of every tracked key, by wrapped object. */
+const triggers = new WeakMap<object, Map<unknown, Trigger>>();
+
+/** Reactive proxy of every wrapped object. */
+const proxies = new WeakMap<object, any>();
+
+/**
+ * Creates a trigger backed by a state whose value is bumped on every change.
+ * The state lives in its own root so that it outlives the scope that first
+ * read the key.
+ *
+ * @returns {Trigger} - The new trigger.
+ */
+function createTrigger(): Trigger {
+  const [get, set] = createRoot(() =>
+    createState(0, { clone: "none", internal: true })
+  );
+  return {
+    track: () => {
+      get();
+    },
+    trigger: () => set((version) => version + 1),
+  };
+}
+
+/**
+ * Registers a key of an object as a dependency of the running computation.
+ * Reads made outside of a computation create no trigger.
+ *
+ * @param {object} target - The wrapped object.
+ * @param {unknown} key - The key being read.
+ */
+function trackKey(target: object, key: unknown): void {
+  if (!isTracking()) {
+    return;
+  }
+  let keys = triggers.get(target);
+  if (!keys) {
+    keys = new Map();
+    triggers.set(target, keys);
+  }
+  let trigger = keys.get(key);
+  if (!trigger) {
+    trigger = createTrigger();
+    keys.set(key, trigger);
+  }
+  trigger.track();
+}
+
+/**
+ * Notifies the computations that read a key of an object. Keys that were
+ * never read inside a computation have no trigger and are skipped.
+ *
+ * @param {object} target - The wrapped object.
+ * @param {unknown} key - The key that changed.
+ */
+function triggerKey(target: object, key: unknown): void {
+  triggers.get(target)?.get(key)?.trigger();
+}
+
+/**
+ * Checks whether a value can be wrapped in a reactive proxy. Plain objects,
+ * arrays, Maps and Sets are wrapped; frozen objects and other instances, such
+ * as dates or DOM nodes, are returned as is.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} - Returns true if the value can be wrapped.
+ */
+function isWrappable(value: unknown): value is object {
+  if (value === null || typeof value !== "object" || Object.isFrozen(value)) {
+    return false;
+  }
+  if (Array.isArray(value) || value instanceof Map || value instanceof Set) {
+    return true;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Wraps a value in its reactive proxy when it can be wrapped.
+ *
+ * @param {unknown} value - The value to wrap.
+ * @returns {unknown} - The reactive proxy, or the value itself.
+ */
+function wrap(value: unknown): unknown {
+  return isWrappable(value) ? createReactive(value) : value;
+}
+
+/**
+ * Returns the object wrapped by a reactive proxy. Other values are returned
+ * as is.
+ *
+ * @template T - The type of the value.
+ * @param {T} value - A reactive proxy or any other value.
+ * @returns {T} - The wrapped object, or the value itself.
+ *
+ * @example
+ * ```typescript
+ * const user = createReactive({ name: "John" });
+ * JSON.stringify(toRaw(user)); // Serializes without tracking any key
+ * ```
+ */
+export function toRaw<T>(value: T): T {
+  return (
+    (value !== null && typeof value === "object" && (value as any)[RAW]) ||
+    value
+  );
+}
+
+/**
+ * Checks whether a value is a reactive proxy.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} - Returns true for proxies returned by `createReactive`.
+ */
+export function isReactive(value: unknown): boolean {
+  return toRaw(value) !== value;
+}
+
+/** Array methods searching for a value, retried with raw arguments. */
+const searchMethods = ["includes", "indexOf", "lastIndexOf"] as const;
+
+/** Array methods both reading and changing the length of the array. */
+const mutationMethods = ["push", "pop", "shift", "unshift", "splice"] as const;
+
+/**
+ * Array methods instrumented so that searching for a wrapped object finds it,
+ * and mutations do not make the running computation depend on the array.
+ */
+const arrayMethods: Record<string, (this: unknown[], ...args: any[]) => any> =
+  {};
+
+for (const method of searchMethods) {
+  arrayMethods[method] = function (...args) {
+    const target = toRaw(this);
+    trackKey(target, ITERATE);
+    const search = Array.prototype[method] as (...args: any[]) => any;
+    const result = search.apply(target, args);
+    return result === -1 || result === false
+      ? search.apply(target, args.map(toRaw))
+      : result;
+  };
+}
+
+for (const method of mutationMethods) {
+  arrayMethods[method] = function (...args) {
+    const mutate = Array.prototype[method] as (...args: any[]) => any;
+    return untrack(() => mutate.apply(this, args));
+  };
+}
+
+/**
+ * Proxy handler of plain objects and arrays.
+ */
+const objectHandler: ProxyHandler<any> = {
+  get(target, key, receiver) {
+    if (key === RAW) return target;
+    if (Array.isArray(target) && Object.hasOwn(arrayMethods, key)) {
+      return arrayMethods[key as string];
+    }
+    trackKey(target, key);
+    return wrap(Reflect.get(target, key, receiver));
+  },
+  set(target, key, value) {
+    const hadKey = Object.hasOwn(target, key);
+    const oldValue = target[key];
+    const oldLength = Array.isArray(target) ? target.length : 0;
+    const rawValue = toRaw(value);
+    if (!Reflect.set(target, key, rawValue)) return false;
+
+    if (!hadKey) {
+      triggerKey(target, key);
+      triggerKey(target, ITERATE);
+    } else if (!Object.is(oldValue, rawValue)) {
+      triggerKey(target, key);
+      // Array searches depend on every value of the array
+      if (Array.isArray(target)) triggerKey(target, ITERATE);
+    }
+    if (Array.isArray(target) && target.length !== oldLength) {
+      triggerKey(target, "length");
+      triggerKey(target, ITERATE);
+      // Indices dropped by shortening the array
+      for (let index = target.length; index < oldLength; index++) {
+        triggerKey(target, String(index));
+      }
+    }
+    return true;
+  },
+  deleteProperty(target, key) {
+    const hadKey = Object.hasOwn(target, key);
+    if (!Reflect.deleteProperty(target, key)) return false;
+    if (hadKey) {
+      triggerKey(target, key);
+      triggerKey(target, ITERATE);
+    }
+    return true;
+  },
+  has(target, key) {
+    trackKey(target, key);
+    return Reflect.has(target, key);
+  },
+  ownKeys(target) {
+    trackKey(target, ITERATE);
+    return Reflect.ownKeys(target);
+  },
+};
+
+/**
+ * Returns an iterator over the entries of a Map or Set, wrapping every value.
+ *
+ * @param {Iterator<unknown>} iterator - The iterator of the wrapped collection.
+ * @param {boolean} entries - Whether the iterator yields `[key, value]` pairs.
+ * @returns {IterableIterator<unknown>} - The wrapping iterator.
+ */
+function wrapIterator(
+  iterator: Iterator<unknown>,
+  entries: boolean
+): IterableIterator<unknown> {
+  return {
+    next() {
+      const result = iterator.next();
+      if (result.done) return result;
+      const value = entries
+        ? (result.value as [unknown, unknown]).map(wrap)
+        : wrap(result.value);
+      return { done: false, value };
+    },
+    [Symbol.iterator]() {
+      return this;
+    },
+  };
+}
+
+/**
+ * Methods of reactive Maps and Sets, called with the proxy as `this`.
+ */
+const collectionMethods: Record<
+  string,
+  (this: Map<unknown, unknown> & Set<unknown>, ...args: any[]) => any
+> = {
+  get(key: unknown) {
+    const target = toRaw(this);
+    const rawKey = toRaw(key);
+    trackKey(target, rawKey);
+    return wrap(target.get(rawKey));
+  },
+  has(key: unknown) {
+    const target = toRaw(this);
+    const rawKey = toRaw(key);
+    trackKey(target, rawKey);
+    return target.has(rawKey);
+  },
+  set(key: unknown, value: unknown) {
+    const target = toRaw(this);
+    const rawKey = toRaw(key);
+    const rawValue = toRaw(value);
+    const hadKey = target.has(rawKey);
+    const oldValue = target.get(rawKey);
+    target.set(rawKey, rawValue);
+    if (!hadKey || !Object.is(oldValue, rawValue)) {
+      triggerKey(target, rawKey);
+      triggerKey(target, ITERATE);
+    }
+    return this;
+  },
+  add(value: unknown) {
+    const target = toRaw(this);
+    const rawValue = toRaw(value);
+    if (!target.has(rawValue)) {
+      target.add(rawValue);
+      triggerKey(target, rawValue);
+      triggerKey(target, ITERATE);
+    }
+    return this;
+  },
+  delete(key: unknown) {
+    const target = toRaw(this);
+    const rawKey = toRaw(key);
+    const deleted = target.delete(rawKey);
+    if (deleted) {
+      triggerKey(target, rawKey);
+      triggerKey(target, ITERATE);
+    }
+    return deleted;
+  },
+  clear() {
+    const target = toRaw(this);
+    const keys = Array.from(target.keys());
+    target.clear();
+    if (keys.length > 0) {
+      for (const key of keys) triggerKey(target, key);
+      triggerKey(target, ITERATE);
+    }
+  },
+  forEach(callback: (...args: unknown[]) => void, thisArg?: unknown) {
+    const target = toRaw(this);
+    trackKey(target, ITERATE);
+    target.forEach((value: unknown, key: unknown) => {
+      callback.call(thisArg, wrap(value), wrap(key), this);
+    });
+  },
+  keys() {
+    const target = toRaw(this);
+    trackKey(target, ITERATE);
+    return wrapIterator(target.keys(), false);
+  },
+  values() {
+    const target = toRaw(this);
+    trackKey(target, ITERATE);
+    return wrapIterator(target.values(), false);
+  },
+  entries() {
+    const target = toRaw(this);
+    trackKey(target, ITERATE);
+    return wrapIterator(target.entries(), true);
+  },
+};
+
+/**
+ * Proxy handler of Maps and Sets.
+ */
+const collectionHandler: ProxyHandler<any> = {
+  get(target, key) {
+    if (key === RAW) return target;
+    if (key === "size") {
+      trackKey(target, ITERATE);
+      return target.size;
+    }
+    if (key === Symbol.iterator) {
+      return target instanceof Map
+        ? collectionMethods["entries"]
+        : collectionMethods["values"];
+    }
+    if (Object.hasOwn(collectionMethods, key)) {
+      return collectionMethods[key as string];
+    }
+    return Reflect.get(target, key, target);
+  },
+};
+
+/**
+ * Wraps an object in a proxy tracking reads key by key. Computed states,
+ * hybrid states and effects reading the proxy only rerun when a key they
+ * read changes, instead of on every change to the object. Nested plain
+ * objects, arrays, Maps and Sets are wrapped on read.
+ *
+ * The proxy mutates the object in place: changes made to the object itself
+ * bypass tracking and notify nobody.
+ *
+ * @template T - The type of the object.
+ * @param {T} value - The object to wrap.
+ * @returns {T} - The reactive proxy of the object.
+ *
+ * @example
+ * ```typescript
+ * const user = createReactive({
+ *   name: { first: "John", last: "Doe" },
+ *   tags: ["admin"],
+ * });
+ * const [getFirst, subscribeFirst] = createComputedState(() => user.name.first);
+ * subscribeFirst((first) => console.log(first)); // Outputs: John
+ * user.name.last = "Smith"; // getFirst is not recomputed
+ * user.name.first = "Jane"; // Outputs: Jane
+ * user.tags.push("editor");
+ * ```
+ */
+export function createReactive<T extends object>(value: T): T {
+  const target = toRaw(value);
+  if (!isWrappable(target)) return value;
+  let proxy = proxies.get(target);
+  if (!proxy) {
+    proxy = new Proxy(
+      target,
+      target instanceof Map || target instanceof Set
+        ? collectionHandler
+        : objectHandler
+    );
+    proxies.set(target, proxy);
+  }
+  return proxy;
+}
@@ -0,0 +1,95 @@
+import { hydrate, renderToString, serializeSnapshot } from "./ssr";
+import {
+  createComputedState,
+  createHybridState,
+  createState,
+  flushSync,
+  hydrateStates,
+} from "./statemanager";
+import { expect, test, jest } from "bun:test";
+
+test("renderToString should snapshot the labeled states created while rendering", () => {
+  const { html, snapshot, script } = renderToString(() => {
+    const [getCount, setCount] = createState(0, { name: "count" });
+    createState("ignored");
+    const [getDouble] = createComputedState(() => getCount() * 2, {
+      name: "double",
+    });
+    const [getUser, setUser] = createHybridState(
+      () => ({ first: "John", last: "Doe" }),
+      { first: "", last: "" },
+      { name: "user" }
+    );
+    setCount(2);
+    setUser({ last: "Smith" });
+    return `<p>${getDouble()} ${getUser().first} ${getUser().last}</p>`;
+  });
+
+  expect(html).toBe("<p>4 John Smith</p>");
+  expect(snapshot).toEqual({ count: 2, user: { last: "Smith" } });
+  expect(script).toBe(
+    '<script type="application/json" id="__KRAAI_STATE__">{"count":2,"user":{"last":"Smith"}}</script>'
+  );
+});
+
+test("serializeSnapshot should escape characters that could end the script", () => {
+  const json = serializeSnapshot({ title: "</script><b>& " });
+
+  expect(json).not.toContain("<");
+  expect(json).not.toContain(">");
+  expect(JSON.parse(json)).toEqual({ title: "</script><b>& " });
+});
+
+test("hydrated states should start from the snapshot and notify subscribers once", () => {
+  hydrate({ snapshot: { count: 2, user: { last: "Smith" } } });
+  const [getCount, setCount, subscribeCount] = createState(0, {
+    name: "count",
+  });
+  const [getUser, setUser] = createHybridState(
+    () => ({ first: "John", last: "Doe" }),
+    { first: "", last: "" },
+    { name: "user" }
+  );
+  const subscriber = jest.fn();
+  subscribeCount(subscriber);
+  flushSync();
+
+  expect(getCount()).toBe(2);
+  expect(subscriber).toHaveBeenCalledTimes(1);
+  expect(subscriber).toHaveBeenCalledWith(2);
+  expect(getUser()).toEqual({ first: "John", last: "Smith" });
+  expect(setUser.overrides().overridden).toEqual(["last"]);
+
+  setCount(3);
+  setUser.reset();
+  expect(getUser()).toEqual({ first: "John", last: "Doe" });
+
+  // Every value hydrates only the first state with its name
+  const [getOther] = createState(0, { name: "count" });
+  expect(getOther()).toBe(0);
+});
+
+test("hydrate should read the snapshot script rendered on the server", () => {
+  const { script } = renderToString(() => {
+    createState({ items: ["a"] }, { name: "cart" });
+    return "";
+  });
+  const text = /<script[^>]*>(.*)<\/script>/.exec(script)![1]!;
+  const document = {
+    getElementById: (id: string) =>
+      id === "__KRAAI_STATE__" ? { textContent: text } : null,
+  };
+  Object.assign(globalThis, { document });
+  try {
+    expect(hydrate()).toEqual({ cart: { items: ["a"] } });
+    const [getCart] = createState({ items: [] as string[] }, { name: "cart" });
+    expect(getCart()).toEqual({ items: ["a"] });
+
+    expect(hydrate({ id: "missing" })).toBeNull();
+    const [getEmpty] = createState({ items: [] }, { name: "cart" });
+    expect(getEmpty()).toEqual({ items: [] });
+  } finally {
+    delete (globalThis as any).document;
+    hydrateStates(null);
+  }
+});
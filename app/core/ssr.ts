@@ -0,0 +1,135 @@
+import {
+  captureStates,
+  createRoot,
+  hydrateStates,
+  type StateSnapshot,
+} from "./statemanager";
+
+/** Default id of the script element carrying the snapshot. */
+const SNAPSHOT_ID = "__KRAAI_STATE__";
+
+/**
+ * Options accepted by `renderToString` and `hydrate`.
+ */
+export interface SnapshotOptions {
+  /** Id of the script element carrying the snapshot. Defaults to `__KRAAI_STATE__`. */
+  id?: string;
+}
+
+/**
+ * Options accepted by `hydrate`.
+ */
+export interface HydrateOptions extends SnapshotOptions {
+  /** The snapshot to use instead of the one in the page. */
+  snapshot?: StateSnapshot;
+}
+
+/**
+ * Result of `renderToString`.
+ */
+export interface RenderResult {
+  /** The HTML returned by the render function. */
+  html: string;
+  /** The values of the labeled states created while rendering. */
+  snapshot: StateSnapshot;
+  /** A script element carrying the snapshot, to add to the page. */
+  script: string;
+}
+
+// Characters that could close the script element or break the JSON
+const UNSAFE_CHARACTERS: Record<string, string> = {
+  "<": "\\u003c",
+  ">": "\\u003e",
+  "&": "\\u0026",
+  "\u2028": "\\u2028",
+  "\u2029": "\\u2029",
+};
+
+/**
+ * Serializes a snapshot to JSON that is safe to embed in an HTML script
+ * element, escaping the characters that could end the element early.
+ *
+ * @param {StateSnapshot} snapshot - The snapshot to serialize.
+ * @returns {string} - The escaped JSON.
+ *
+ * @example
+ * ```typescript
+ * serializeSnapshot({ title: "</script>" });
+ * // '{"title":"\\u003c/script\\u003e"}'
+ * ```
+ */
+export function serializeSnapshot(snapshot: StateSnapshot): string {
+  return JSON.stringify(snapshot).replace(
+    /[<>&\u2028\u2029]/g,
+    (character) => UNSAFE_CHARACTERS[character]!
+  );
+}
+
+/**
+ * Renders HTML on the server from states created for the request. The states
+ * are created in a root of their own, disposed of once rendered, so that
+ * requests never share them. Their values must be serializable as JSON.
+ *
+ * The render function runs synchronously: load the data of the request
+ * first, then create the states from it.
+ *
+ * @param {() => string} render - Creates the states and returns the HTML.
+ * @param {SnapshotOptions} [options] - The id of the script element.
+ * @returns {RenderResult} - The HTML, the snapshot and its script element.
+ *
+ * @example
+ * ```typescript
+ * app.get("/users/:id", async (req, { params }) => {
+ *   const user = await loadUser(params["id"]);
+ *   const { html, script } = renderToString(() => {
+ *     const [getUser] = createState(user, { name: "user" });
+ *     return `<h1>${escapeHTML(getUser().name)}</h1>`;
+ *   });
+ *   return new Response(`<div id="app">${html}</div>${script}`, {
+ *     headers: { "Content-Type": "text/html" },
+ *   });
+ * });
+ * ```
+ */
+export function renderToString(
+  render: () => string,
+  options: SnapshotOptions = {}
+): RenderResult {
+  const { id = SNAPSHOT_ID } = options;
+  const [html, snapshot] = createRoot((dispose) => {
+    try {
+      return captureStates(render);
+    } finally {
+      dispose();
+    }
+  });
+  const json = serializeSnapshot(snapshot);
+  const script = `<script type="application/json" id="${id}">${json}</script>`;
+  return { html, snapshot, script };
+}
+
+/**
+ * Makes the labeled states created next on the client start from the values
+ * rendered on the server, read from the snapshot script element. Call it
+ * before creating the states. Without a snapshot in the page, states start
+ * from their initial value.
+ *
+ * @param {HydrateOptions} [options] - The id of the script element, or the snapshot itself.
+ * @returns {StateSnapshot | null} - The snapshot used, or `null` when the page has none.
+ *
+ * @example
+ * ```typescript
+ * hydrate();
+ * const [getUser, setUser] = createState(emptyUser, { name: "user" });
+ * ```
+ */
+export function hydrate(options: HydrateOptions = {}): StateSnapshot | null {
+  const { id = SNAPSHOT_ID } = options;
+  let snapshot = options.snapshot ?? null;
+  if (!snapshot) {
+    const text = globalThis.document?.getElementById(id)?.textContent;
+    snapshot = text ? JSON.parse(text) : null;
+  }
+  hydrateStates(snapshot);
+  return snapshot;
+}
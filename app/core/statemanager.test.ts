@@ -2,8 +2,21 @@ import {
   createState,
   createComputedState,
   createHybridState,
+  batch,
+  createAsyncState,
+  createEffect,
+  createRoot,
+  createScope,
+  configure,
+  CycleError,
+  dispose,
+  flushSync,
+  isTracking,
+  untrack,
+  ValidationError,
+  type StandardSchema,
 } from "./statemanager";
-import { expect, test, jest } from "bun:test";
+import { expect, test, jest, spyOn } from "bun:test";
 
 test("createState should initialize state with the given value", () => {
   const [get] = createState(0);
@@ -97,3 +110,1366 @@ test("createHybridState should recompute hybrid state when dependencies change",
   await new Promise((resolve) => setImmediate(resolve));
   expect(getHybrid()).toEqual({ x: 8, y: 10 });
 });
+
+test("batch should coalesce updates into a single synchronous notification", () => {
+  const [get, set, subscribe] = createState(0);
+  const subscriber = jest.fn();
+  subscribe(subscriber);
+
+  batch(() => {
+    set(1);
+    set(2);
+    set(3);
+  });
+
+  expect(get()).toBe(3);
+  expect(subscriber).toHaveBeenCalledTimes(2);
+  expect(subscriber).toHaveBeenLastCalledWith(3);
+});
+
+test("batch should only flush when the outermost batch returns", () => {
+  const [_, set, subscribe] = createState(0);
+  const subscriber = jest.fn();
+  subscribe(subscriber);
+
+  batch(() => {
+    set(1);
+    batch(() => set(2));
+    expect(subscriber).toHaveBeenCalledTimes(1);
+  });
+
+  expect(subscriber).toHaveBeenCalledTimes(2);
+  expect(subscriber).toHaveBeenLastCalledWith(2);
+});
+
+test("flushSync inside a batch should wait for the outermost batch", () => {
+  const [, setA, subscribeA] = createState(0);
+  const [, setB, subscribeB] = createState(0);
+  const seen: string[] = [];
+  subscribeA((value) => seen.push(`a=${value}`));
+  subscribeB((value) => seen.push(`b=${value}`));
+  seen.length = 0;
+
+  batch(() => {
+    setB(5);
+    batch(() => flushSync());
+    setA(1);
+    flushSync();
+    setB(6);
+    expect(seen).toEqual([]);
+  });
+
+  expect(seen).toEqual(["b=6", "a=1"]);
+});
+
+test("batch should return the value of the function", () => {
+  expect(batch(() => 42)).toBe(42);
+});
+
+test("batch should rethrow errors and still deliver earlier updates", async () => {
+  const [get, set, subscribe] = createState(0);
+  const subscriber = jest.fn();
+  subscribe(subscriber);
+
+  expect(() =>
+    batch(() => {
+      set(1);
+      throw new Error("boom");
+    })
+  ).toThrow("boom");
+
+  expect(get()).toBe(1);
+  await new Promise((resolve) => setImmediate(resolve));
+  expect(subscriber).toHaveBeenLastCalledWith(1);
+
+  // Batching keeps working after an error
+  batch(() => set(2));
+  expect(subscriber).toHaveBeenLastCalledWith(2);
+});
+
+test("flushSync should deliver pending updates immediately", () => {
+  const [getA, setA] = createState(1);
+  const [_, subscribeB] = createComputedState(() => getA() * 10);
+  const subscriber = jest.fn();
+  subscribeB(subscriber);
+
+  setA(2);
+  flushSync();
+
+  expect(subscriber).toHaveBeenLastCalledWith(20);
+});
+
+test("computed states in a diamond should recompute once per flush", () => {
+  const [getA, setA] = createState(1);
+  const [getB] = createComputedState(() => getA() + 1);
+  const [getC] = createComputedState(() => getA() * 2);
+  const computeD = jest.fn(() => getB() + getC());
+  const [_, subscribeD] = createComputedState(computeD);
+  const subscriber = jest.fn();
+  subscribeD(subscriber);
+  computeD.mockClear();
+
+  setA(2);
+  flushSync();
+
+  expect(computeD).toHaveBeenCalledTimes(1);
+  expect(subscriber).toHaveBeenCalledTimes(2);
+  expect(subscriber).toHaveBeenLastCalledWith(7);
+});
+
+test("subscribers should never observe intermediate values", () => {
+  const [getA, setA] = createState(1);
+  const [getB, subscribeB] = createComputedState(() => getA() * 2);
+  const [getC] = createComputedState(() => getA() * 3);
+  const seen: number[][] = [];
+  subscribeB(() => seen.push([getA(), getB(), getC()]));
+
+  setA(2);
+  flushSync();
+
+  expect(seen).toEqual([
+    [1, 2, 3],
+    [2, 4, 6],
+  ]);
+});
+
+test("computed states should read fresh values before the flush", () => {
+  const [getA, setA] = createState(1);
+  const [getB] = createComputedState(() => getA() + 1);
+  const [getC] = createComputedState(() => getB() * 10);
+
+  setA(5);
+
+  expect(getC()).toBe(60);
+});
+
+test("computed states should not recompute downstream when a value is unchanged", () => {
+  const [getA, setA] = createState(2);
+  const [getB] = createComputedState(() => getA() % 2);
+  const computeC = jest.fn(() => getB() + 1);
+  const [_, subscribeC] = createComputedState(computeC);
+  subscribeC(() => {});
+  computeC.mockClear();
+
+  setA(4);
+  flushSync();
+
+  expect(computeC).not.toHaveBeenCalled();
+});
+
+test("hybrid states in a diamond should recompute once per flush", () => {
+  const [getA, setA] = createState(1);
+  const [getB] = createComputedState(() => getA() + 1);
+  const computeHybrid = jest.fn(() => ({ sum: getA() + getB() }));
+  const [getHybrid, _, subscribeHybrid] = createHybridState(computeHybrid, {
+    sum: 0,
+  });
+  const subscriber = jest.fn();
+  subscribeHybrid(subscriber);
+  computeHybrid.mockClear();
+
+  setA(3);
+  flushSync();
+
+  expect(computeHybrid).toHaveBeenCalledTimes(1);
+  expect(getHybrid()).toEqual({ sum: 7 });
+  expect(subscriber).toHaveBeenCalledTimes(2);
+});
+
+test("createState should skip notifications for equal values with deep equality", () => {
+  const [_, set, subscribe] = createState({ a: [1, 2] }, { equals: "deep" });
+  const subscriber = jest.fn();
+  subscribe(subscriber);
+
+  set({ a: [1, 2] });
+  flushSync();
+  expect(subscriber).toHaveBeenCalledTimes(1);
+
+  set({ a: [1, 3] });
+  flushSync();
+  expect(subscriber).toHaveBeenCalledTimes(2);
+});
+
+test("createState should store values as is with clone set to none", () => {
+  class Counter {
+    count = 0;
+    increment() {
+      this.count++;
+    }
+  }
+  const counter = new Counter();
+  const [get, set] = createState<Counter | null>(null, { clone: "none" });
+
+  set(counter);
+
+  expect(get()).toBe(counter);
+  get()!.increment();
+  expect(counter.count).toBe(1);
+});
+
+test("createState should freeze values with the freeze clone strategy", () => {
+  const value = { nested: { count: 0 } };
+  const [get] = createState(value, { clone: "freeze" });
+
+  expect(get()).toBe(value);
+  expect(Object.isFrozen(get().nested)).toBe(true);
+});
+
+test("createState should accept a custom clone and equality function", () => {
+  const [get, set, subscribe] = createState(
+    { id: 1, label: "a" },
+    {
+      equals: (a, b) => a.id === b.id,
+      clone: (value) => ({ ...value }),
+    }
+  );
+  const subscriber = jest.fn();
+  subscribe(subscriber);
+
+  set({ id: 1, label: "b" });
+  flushSync();
+
+  expect(get().label).toBe("a");
+  expect(subscriber).toHaveBeenCalledTimes(1);
+});
+
+test("createComputedState should not notify when the computed value is shallowly equal", () => {
+  const [getA, setA] = createState(1);
+  const [_, subscribeB] = createComputedState(
+    () => ({ positive: getA() > 0 }),
+    { equals: "shallow" }
+  );
+  const subscriber = jest.fn();
+  subscribeB(subscriber);
+
+  setA(2);
+  flushSync();
+
+  expect(subscriber).toHaveBeenCalledTimes(1);
+});
+
+test("createHybridState should accept equality and clone options", () => {
+  const [getA, setA] = createState(1);
+  const [_, setHybrid, subscribeHybrid] = createHybridState(
+    () => ({ positive: getA() > 0, label: "x" }),
+    { positive: true, label: "x" },
+    { equals: "deep", clone: "freeze" }
+  );
+  const subscriber = jest.fn();
+  subscribeHybrid(subscriber);
+
+  setA(2);
+  setHybrid({ label: "x" });
+  flushSync();
+
+  expect(subscriber).toHaveBeenCalledTimes(1);
+  expect(Object.isFrozen(subscriber.mock.calls[0][0])).toBe(true);
+});
+
+test("setters should accept functional updaters", () => {
+  const [get, set] = createState(0);
+
+  batch(() => {
+    set((prev) => prev + 1);
+    set((prev) => prev + 1);
+  });
+
+  expect(get()).toBe(2);
+});
+
+test("setters should store functions wrapped in an updater", () => {
+  const fn = () => "called";
+  const [get, set] = createState<() => string>(() => "initial", {
+    clone: "none",
+  });
+
+  set(() => fn);
+
+  expect(get()).toBe(fn);
+});
+
+test("setIn should immutably update a nested value", () => {
+  const initial = { name: { first: "John", last: "Doe" }, age: 30 };
+  const [get, set, subscribe] = createState(initial, { clone: "none" });
+  const subscriber = jest.fn();
+  subscribe(subscriber);
+
+  set.setIn(["name", "first"], "Jane");
+  flushSync();
+
+  expect(get()).toEqual({ name: { first: "Jane", last: "Doe" }, age: 30 });
+  expect(initial.name.first).toBe("John");
+  expect(subscriber).toHaveBeenLastCalledWith(get());
+});
+
+test("setIn should accept an updater for the nested value", () => {
+  const [get, set] = createState({ stats: { visits: 1 } });
+
+  set.setIn(["stats", "visits"], (prev) => prev + 1);
+
+  expect(get().stats.visits).toBe(2);
+});
+
+test("createHybridState setter should accept functional updaters", () => {
+  const [getHybrid, setHybrid] = createHybridState(() => ({ x: 1, y: 2 }), {
+    x: 1,
+    y: 2,
+  });
+
+  setHybrid((prev) => ({ y: prev.y + prev.x }));
+
+  expect(getHybrid()).toEqual({ x: 1, y: 3 });
+});
+
+test("createHybridState setIn should keep sibling keys of the nested value", () => {
+  const [getA, setA] = createState(1);
+  const [getHybrid, setHybrid] = createHybridState(
+    () => ({ no: getA(), name: { first: "John", last: "Doe" } }),
+    { no: 1, name: { first: "John", last: "Doe" } }
+  );
+
+  setHybrid.setIn(["name", "first"], "Jane");
+  setA(2);
+
+  expect(getHybrid()).toEqual({
+    no: 2,
+    name: { first: "Jane", last: "Doe" },
+  });
+});
+
+test("createHybridState should merge nested overrides with the deep merge strategy", () => {
+  const [getA, setA] = createState(1);
+  const [getHybrid, setHybrid] = createHybridState(
+    () => ({ no: getA(), name: { first: "John", last: "Doe" } }),
+    { no: 1, name: { first: "John", last: "Doe" } },
+    { merge: "deep" }
+  );
+
+  setHybrid({ name: { first: "Jane" } });
+  setA(2);
+
+  expect(getHybrid()).toEqual({
+    no: 2,
+    name: { first: "Jane", last: "Doe" },
+  });
+});
+
+test("createHybridState should replace whole keys with the shallow merge strategy", () => {
+  const [getHybrid, setHybrid] = createHybridState(
+    () => ({
+      name: { first: "John", last: "Doe" } as { first: string; last?: string },
+    }),
+    { name: { first: "John", last: "Doe" } }
+  );
+
+  setHybrid({ name: { first: "Jane" } });
+
+  expect(getHybrid()).toEqual({ name: { first: "Jane" } });
+});
+
+test("createHybridState should accept a custom merge function", () => {
+  const [getHybrid, setHybrid] = createHybridState(
+    () => ({ tags: ["computed"] }),
+    { tags: [] as string[] },
+    {
+      merge: (computed, override) => ({
+        tags: [...computed.tags, ...(override.tags ?? [])],
+      }),
+    }
+  );
+
+  setHybrid({ tags: ["manual"] });
+
+  expect(getHybrid().tags).toEqual(["computed", "manual"]);
+});
+
+test("createHybridState reset should fall back to the computed value", () => {
+  const [getA, setA] = createState(1);
+  const [getHybrid, setHybrid, subscribe] = createHybridState(
+    () => ({ x: getA(), y: getA() * 2 }),
+    { x: 1, y: 2 }
+  );
+  const subscriber = jest.fn();
+  subscribe(subscriber);
+
+  setHybrid({ x: 10, y: 20 });
+  setA(3);
+  expect(getHybrid()).toEqual({ x: 10, y: 20 });
+
+  setHybrid.reset("x");
+  expect(getHybrid()).toEqual({ x: 3, y: 20 });
+
+  setHybrid.reset();
+  expect(getHybrid()).toEqual({ x: 3, y: 6 });
+
+  flushSync();
+  expect(subscriber).toHaveBeenLastCalledWith({ x: 3, y: 6 });
+});
+
+test("createHybridState overrides should list overridden and derived keys", () => {
+  const [_, setHybrid] = createHybridState(() => ({ x: 1, y: 2, z: 3 }), {
+    x: 1,
+    y: 2,
+    z: 3,
+  });
+
+  expect(setHybrid.overrides()).toEqual({
+    overridden: [],
+    derived: ["x", "y", "z"],
+  });
+
+  setHybrid({ y: 5 });
+  expect(setHybrid.overrides()).toEqual({
+    overridden: ["y"],
+    derived: ["x", "z"],
+  });
+
+  setHybrid.reset("y");
+  expect(setHybrid.overrides().overridden).toEqual([]);
+});
+
+test("createEffect should run immediately and rerun when dependencies change", () => {
+  const [getA, setA] = createState(1);
+  const [getB] = createComputedState(() => getA() * 2);
+  const effect = jest.fn(() => {
+    getB();
+  });
+  createEffect(effect);
+  expect(effect).toHaveBeenCalledTimes(1);
+
+  setA(2);
+  expect(effect).toHaveBeenCalledTimes(1);
+  flushSync();
+  expect(effect).toHaveBeenCalledTimes(2);
+});
+
+test("createEffect should run once per flush for several changes", () => {
+  const [getA, setA] = createState(1);
+  const [getB, setB] = createState(1);
+  const seen: number[] = [];
+  createEffect(() => {
+    seen.push(getA() + getB());
+  });
+
+  batch(() => {
+    setA(2);
+    setB(3);
+  });
+
+  expect(seen).toEqual([2, 5]);
+});
+
+test("createEffect should rerun after updating its own dependency", () => {
+  const [getCount, setCount] = createState(0);
+  const runs = jest.fn();
+  createEffect(() => {
+    runs();
+    const count = getCount();
+    if (count < 5) setCount(count + 1);
+  });
+
+  flushSync();
+
+  expect(getCount()).toBe(5);
+  expect(runs).toHaveBeenCalledTimes(6);
+
+  setCount(2);
+  flushSync();
+
+  expect(getCount()).toBe(5);
+  expect(runs).toHaveBeenCalledTimes(10);
+});
+
+test("createEffect should track dependencies dynamically", () => {
+  const [getFlag, setFlag] = createState(true);
+  const [getA, setA] = createState(1);
+  const [getB, setB] = createState(1);
+  const effect = jest.fn(() => (getFlag() ? getA() : getB()));
+  createEffect(() => {
+    effect();
+  });
+
+  setB(2);
+  flushSync();
+  expect(effect).toHaveBeenCalledTimes(1);
+
+  setFlag(false);
+  flushSync();
+  setA(2);
+  flushSync();
+  expect(effect).toHaveBeenCalledTimes(2);
+
+  setB(3);
+  flushSync();
+  expect(effect).toHaveBeenCalledTimes(3);
+});
+
+test("createEffect should run cleanup before each rerun and on dispose", () => {
+  const [getA, setA] = createState(1);
+  const log: string[] = [];
+  const dispose = createEffect(() => {
+    const value = getA();
+    log.push(`run ${value}`);
+    return () => log.push(`cleanup ${value}`);
+  });
+
+  setA(2);
+  flushSync();
+  dispose();
+  setA(3);
+  flushSync();
+
+  expect(log).toEqual(["run 1", "cleanup 1", "run 2", "cleanup 2"]);
+});
+
+test("createEffect should not track states read in its cleanup", () => {
+  const [getA, setA] = createState(1);
+  const [getB, setB] = createState(1);
+  const effect = jest.fn();
+  createEffect(() => {
+    effect(getA());
+    return () => getB();
+  });
+
+  setA(2);
+  flushSync();
+  setB(2);
+  flushSync();
+
+  expect(effect).toHaveBeenCalledTimes(2);
+});
+
+test("createAsyncState should expose loading and success statuses", async () => {
+  const [getUser, subscribeUser] = createAsyncState(async () => "John");
+  const subscriber = jest.fn();
+  subscribeUser(subscriber);
+
+  expect(getUser().status).toBe("loading");
+  await new Promise((resolve) => setImmediate(resolve));
+
+  expect(getUser()).toEqual({
+    status: "success",
+    data: "John",
+    error: undefined,
+  });
+  expect(subscriber).toHaveBeenLastCalledWith(getUser());
+});
+
+test("createAsyncState should expose errors and keep the last data", async () => {
+  const [getShouldFail, setShouldFail] = createState(false);
+  const [getResult] = createAsyncState(async () => {
+    if (getShouldFail()) throw new Error("failed");
+    return 1;
+  });
+  await new Promise((resolve) => setImmediate(resolve));
+
+  setShouldFail(true);
+  flushSync();
+  await new Promise((resolve) => setImmediate(resolve));
+
+  expect(getResult().status).toBe("error");
+  expect(getResult().data).toBe(1);
+  expect((getResult().error as Error).message).toBe("failed");
+});
+
+test("createAsyncState should abort the previous run when dependencies change", async () => {
+  const [getId, setId] = createState(1);
+  const signals: AbortSignal[] = [];
+  const resolvers: ((value: string) => void)[] = [];
+  const [getUser] = createAsyncState((signal) => {
+    const id = getId();
+    signals.push(signal);
+    return new Promise<string>((resolve) =>
+      resolvers.push(() => resolve(`user ${id}`))
+    );
+  });
+
+  setId(2);
+  flushSync();
+
+  expect(signals).toHaveLength(2);
+  expect(signals[0].aborted).toBe(true);
+  expect(signals[1].aborted).toBe(false);
+
+  resolvers[1]("");
+  resolvers[0]("");
+  await new Promise((resolve) => setImmediate(resolve));
+
+  expect(getUser().data).toBe("user 2");
+});
+
+test("createAsyncState should only track states read before the first await", async () => {
+  const [getA] = createState(1);
+  const [getB, setB] = createState(1);
+  const run = jest.fn();
+  createAsyncState(async () => {
+    run();
+    getA();
+    await Promise.resolve();
+    return getB();
+  });
+  await new Promise((resolve) => setImmediate(resolve));
+
+  setB(2);
+  flushSync();
+
+  expect(run).toHaveBeenCalledTimes(1);
+});
+
+test("createComputedState should not compute until it is read", () => {
+  const [getA] = createState(1);
+  const computeB = jest.fn(() => getA() * 2);
+  const [getB] = createComputedState(computeB);
+
+  expect(computeB).not.toHaveBeenCalled();
+  expect(getB()).toBe(2);
+  expect(getB()).toBe(2);
+  expect(computeB).toHaveBeenCalledTimes(1);
+});
+
+test("createComputedState should not recompute while unobserved", () => {
+  const [getA, setA] = createState(1);
+  const computeB = jest.fn(() => getA() * 2);
+  const [getB] = createComputedState(computeB);
+  getB();
+
+  setA(2);
+  setA(3);
+  flushSync();
+  expect(computeB).toHaveBeenCalledTimes(1);
+
+  expect(getB()).toBe(6);
+  expect(computeB).toHaveBeenCalledTimes(2);
+});
+
+test("createComputedState should detach from its dependencies when the last subscriber leaves", () => {
+  const [getA, setA] = createState(1);
+  const computeB = jest.fn(() => getA() * 2);
+  const [getB, subscribeB] = createComputedState(computeB);
+  const computeC = jest.fn(() => getB() + 1);
+  const [getC, subscribeC] = createComputedState(computeC);
+
+  const unsubscribeB = subscribeB(() => {});
+  const unsubscribeC = subscribeC(() => {});
+  setA(2);
+  flushSync();
+  expect(computeC).toHaveBeenCalledTimes(2);
+
+  unsubscribeC();
+  setA(3);
+  flushSync();
+  expect(computeB).toHaveBeenCalledTimes(3);
+  expect(computeC).toHaveBeenCalledTimes(2);
+
+  unsubscribeB();
+  setA(4);
+  flushSync();
+  expect(computeB).toHaveBeenCalledTimes(3);
+
+  // Reattaches on the next read
+  expect(getC()).toBe(9);
+  expect(computeB).toHaveBeenCalledTimes(4);
+  expect(computeC).toHaveBeenCalledTimes(3);
+});
+
+test("createComputedState should reattach when subscribed again", () => {
+  const [getA, setA] = createState(1);
+  const [_, subscribeB] = createComputedState(() => getA() * 2);
+  subscribeB(() => {})();
+
+  const subscriber = jest.fn();
+  subscribeB(subscriber);
+  setA(5);
+  flushSync();
+
+  expect(subscriber).toHaveBeenLastCalledWith(10);
+});
+
+test("createHybridState should compute lazily", () => {
+  const [getA, setA] = createState(1);
+  const computeHybrid = jest.fn(() => ({ x: getA() }));
+  const [getHybrid] = createHybridState(computeHybrid, { x: 0 });
+
+  expect(computeHybrid).not.toHaveBeenCalled();
+  setA(2);
+  flushSync();
+  expect(computeHybrid).not.toHaveBeenCalled();
+
+  expect(getHybrid()).toEqual({ x: 2 });
+  expect(computeHybrid).toHaveBeenCalledTimes(1);
+});
+
+test("dispose should stop notifying the subscribers of a state", () => {
+  const [_, set, subscribe] = createState(0);
+  const subscriber = jest.fn();
+  subscribe(subscriber);
+
+  dispose(_);
+  set(1);
+  flushSync();
+
+  expect(subscriber).toHaveBeenCalledTimes(1);
+});
+
+test("dispose should unlink a computed state from its dependencies", () => {
+  const [getA, setA] = createState(1);
+  const computeB = jest.fn(() => getA() * 2);
+  const [getB, subscribeB] = createComputedState(computeB);
+  const subscriber = jest.fn();
+  subscribeB(subscriber);
+
+  dispose(getB);
+  setA(2);
+  flushSync();
+
+  expect(computeB).toHaveBeenCalledTimes(1);
+  expect(subscriber).toHaveBeenCalledTimes(1);
+});
+
+test("createScope should dispose of everything created inside it together", () => {
+  const [getA, setA] = createState(1);
+  const computeB = jest.fn(() => getA() * 2);
+  const computeHybrid = jest.fn(() => ({ a: getA() }));
+  const effect = jest.fn(() => {
+    getA();
+  });
+  const scope = createScope();
+
+  scope.run(() => {
+    const [_, subscribeB] = createComputedState(computeB);
+    subscribeB(() => {});
+    const [_2, _3, subscribeHybrid] = createHybridState(computeHybrid, {
+      a: 0,
+    });
+    subscribeHybrid(() => {});
+    createEffect(effect);
+  });
+
+  setA(2);
+  flushSync();
+  expect(computeB).toHaveBeenCalledTimes(2);
+  expect(computeHybrid).toHaveBeenCalledTimes(2);
+  expect(effect).toHaveBeenCalledTimes(2);
+
+  scope.dispose();
+  setA(3);
+  flushSync();
+  expect(computeB).toHaveBeenCalledTimes(2);
+  expect(computeHybrid).toHaveBeenCalledTimes(2);
+  expect(effect).toHaveBeenCalledTimes(2);
+  expect(() => scope.run(() => {})).toThrow();
+});
+
+test("createScope should dispose of nested scopes with their parent", () => {
+  const [getA, setA] = createState(1);
+  const effect = jest.fn(() => {
+    getA();
+  });
+  const parent = createScope();
+  parent.run(() => {
+    createScope().run(() => createEffect(effect));
+  });
+
+  parent.dispose();
+  setA(2);
+  flushSync();
+
+  expect(effect).toHaveBeenCalledTimes(1);
+});
+
+test("createRoot should not be disposed of with the surrounding scope", () => {
+  const [getA, setA] = createState(1);
+  const effect = jest.fn(() => {
+    getA();
+  });
+  const scope = createScope();
+  const disposeRoot = scope.run(() =>
+    createRoot((dispose) => {
+      createEffect(effect);
+      return dispose;
+    })
+  );
+
+  scope.dispose();
+  setA(2);
+  flushSync();
+  expect(effect).toHaveBeenCalledTimes(2);
+
+  disposeRoot();
+  setA(3);
+  flushSync();
+  expect(effect).toHaveBeenCalledTimes(2);
+});
+
+test("createEffect should dispose of states and effects created in its previous run", () => {
+  const [getA, setA] = createState(1);
+  const inner = jest.fn();
+  createEffect(() => {
+    const value = getA();
+    createEffect(() => inner(value, getA()));
+  });
+  inner.mockClear();
+
+  setA(2);
+  flushSync();
+
+  // Only the inner effect of the latest run is alive
+  expect(inner).toHaveBeenCalledTimes(1);
+  expect(inner).toHaveBeenCalledWith(2, 2);
+});
+
+test("disposing a scope should let its computed states be garbage collected", () => {
+  const [getA, setA] = createState(1);
+  const scope = createScope();
+  const ref = (() => {
+    const [getB, subscribeB] = scope.run(() =>
+      createComputedState(() => ({ value: getA() }))
+    );
+    subscribeB(() => {});
+    return new WeakRef(getB);
+  })();
+
+  scope.dispose();
+  Bun.gc(true);
+
+  expect(ref.deref()).toBeUndefined();
+  setA(2);
+  expect(getA()).toBe(2);
+});
+
+test("computed states reading each other should throw a CycleError", () => {
+  let getB: () => number = () => 0;
+  const [getA] = createComputedState(() => getB() + 1, { name: "a" });
+  [getB] = createComputedState(() => getA() + 1, { name: "b" });
+
+  let error: unknown;
+  try {
+    getA();
+  } catch (e) {
+    error = e;
+  }
+
+  expect(error).toBeInstanceOf(CycleError);
+  expect((error as CycleError).states).toEqual(["a", "b", "a"]);
+  expect((error as CycleError).message).toContain("a -> b -> a");
+});
+
+test("the graph should stay consistent after a computed cycle", () => {
+  const [getUseCycle, setUseCycle] = createState(true);
+  let getB: () => number = () => 0;
+  const [getA] = createComputedState(() => (getUseCycle() ? getB() : 1));
+  [getB] = createComputedState(() => getA() + 1);
+
+  expect(() => getA()).toThrow(CycleError);
+  expect(() => getA()).toThrow(CycleError);
+
+  setUseCycle(false);
+  expect(getA()).toBe(1);
+  expect(getB()).toBe(2);
+});
+
+test("a subscriber updating its own state forever should throw a CycleError", () => {
+  const [getA, setA, subscribeA] = createState(0, { name: "counter" });
+  subscribeA(() => setA(getA() + 1));
+
+  let error: unknown;
+  try {
+    flushSync();
+    setA(1);
+    flushSync();
+  } catch (e) {
+    error = e;
+  }
+
+  expect(error).toBeInstanceOf(CycleError);
+  expect((error as CycleError).states).toEqual(["counter"]);
+
+  // The scheduler keeps working afterwards
+  const [getB, setB, subscribeB] = createState(0);
+  const subscriber = jest.fn();
+  subscribeB(subscriber);
+  dispose(getA);
+  setB(1);
+  flushSync();
+  expect(getB()).toBe(1);
+  expect(subscriber).toHaveBeenLastCalledWith(1);
+});
+
+test("effects updating each other forever should respect maxIterations", () => {
+  configure({ maxIterations: 5 });
+  const scope = createScope();
+  try {
+    const [getA, setA] = createState(0, { name: "a" });
+    const [getB, setB] = createState(0, { name: "b" });
+    const runs = jest.fn();
+    scope.run(() => {
+      createEffect(() => setB(getA() + 1), { name: "a to b" });
+      createEffect(
+        () => {
+          runs();
+          setA(getB() + 1);
+        },
+        { name: "b to a" }
+      );
+    });
+
+    let error: unknown;
+    try {
+      flushSync();
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(CycleError);
+    expect((error as CycleError).states.length).toBeGreaterThan(0);
+    expect(runs.mock.calls.length).toBeLessThanOrEqual(6);
+  } finally {
+    scope.dispose();
+    configure({ maxIterations: 100 });
+  }
+});
+
+test("an effect incrementing its own dependency should respect maxIterations", async () => {
+  const onError = jest.fn();
+  configure({ maxIterations: 5, onError });
+  const scope = createScope();
+  try {
+    const [getA, setA] = createState(0, { name: "a" });
+    const runs = jest.fn();
+    scope.run(() => {
+      createEffect(
+        () => {
+          runs();
+          setA(getA() + 1);
+        },
+        { name: "increment" }
+      );
+    });
+
+    expect(() => flushSync()).toThrow(CycleError);
+    expect(runs.mock.calls.length).toBeLessThanOrEqual(7);
+
+    // On the scheduled flush, the error goes to the onError handler
+    setA(0);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(CycleError);
+  } finally {
+    scope.dispose();
+    configure({
+      maxIterations: 100,
+      onError: (error) => console.error(error),
+    });
+  }
+});
+
+test("effect loops on the scheduled flush should stop and go to the onError handler", async () => {
+  const onError = jest.fn();
+  configure({ maxIterations: 5, onError });
+  const scope = createScope();
+  try {
+    const [getA, setA] = createState(0, { name: "a" });
+    const [getB, setB] = createState(0, { name: "b" });
+    const runs = jest.fn();
+    scope.run(() => {
+      createEffect(() => setB(getA() + 1));
+      createEffect(() => {
+        runs();
+        setA(getB() + 1);
+      });
+    });
+    setA(1);
+
+    // A timer only fires once the microtask queue settles
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(CycleError);
+    expect(onError.mock.calls[0][1]).toEqual({
+      name: undefined,
+      source: "flush",
+    });
+    const calls = runs.mock.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(runs.mock.calls.length).toBe(calls);
+  } finally {
+    scope.dispose();
+    configure({
+      maxIterations: 100,
+      onError: (error) => console.error(error),
+    });
+  }
+});
+
+test("flushes after an aborted update loop should not resume it", () => {
+  configure({ maxIterations: 5 });
+  const scope = createScope();
+  try {
+    const [getA, setA] = createState(0);
+    const [getB, setB] = createState(0);
+    scope.run(() => {
+      createEffect(() => setB(getA() + 1));
+      createEffect(() => setA(getB() + 1));
+    });
+    expect(() => flushSync()).toThrow(CycleError);
+
+    const [getC, setC, subscribeC] = createState(0);
+    const subscriber = jest.fn();
+    subscribeC(subscriber);
+    setC(1);
+
+    expect(() => flushSync()).not.toThrow();
+    expect(getC()).toBe(1);
+    expect(subscriber).toHaveBeenLastCalledWith(1);
+  } finally {
+    scope.dispose();
+    configure({ maxIterations: 100 });
+  }
+});
+
+test("bounded update chains should not be treated as cycles", () => {
+  const [getA, setA, subscribeA] = createState(0);
+  subscribeA((value) => {
+    if (value < 10) setA(value + 1);
+  });
+
+  flushSync();
+
+  expect(getA()).toBe(10);
+});
+
+test("a throwing subscriber should not prevent the other subscribers from running", () => {
+  const onError = jest.fn();
+  const [getA, setA, subscribeA] = createState(0, { name: "a", onError });
+  const [, setB, subscribeB] = createState(0);
+  const first = jest.fn();
+  const last = jest.fn();
+  const other = jest.fn();
+  subscribeA(first);
+  subscribeA((value) => {
+    if (value > 0) throw new Error("boom");
+  });
+  subscribeA(last);
+  subscribeB(other);
+
+  batch(() => {
+    setA(1);
+    setB(1);
+  });
+  flushSync();
+
+  expect(first).toHaveBeenCalledWith(1);
+  expect(last).toHaveBeenCalledWith(1);
+  expect(other).toHaveBeenCalledWith(1);
+  expect(onError).toHaveBeenCalledTimes(1);
+  expect(onError.mock.calls[0][0]).toBeInstanceOf(Error);
+  expect(onError.mock.calls[0][1]).toEqual({ name: "a", source: "subscriber" });
+
+  setA(2);
+  flushSync();
+
+  expect(getA()).toBe(2);
+  expect(last).toHaveBeenCalledWith(2);
+  expect(onError).toHaveBeenCalledTimes(2);
+});
+
+test("errors without a state handler should go to the global onError handler", () => {
+  const onError = jest.fn();
+  configure({ onError });
+  try {
+    const [, setA, subscribeA] = createState(0);
+    subscribeA((value) => {
+      if (value > 0) throw new Error("boom");
+    });
+
+    setA(1);
+    flushSync();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][1]).toEqual({
+      name: undefined,
+      source: "subscriber",
+    });
+  } finally {
+    configure({ onError: (error) => console.error(error) });
+  }
+});
+
+test("a failing computed state should rethrow its error until a dependency changes", () => {
+  const onError = jest.fn();
+  const [getA, setA] = createState(0);
+  const compute = jest.fn(() => {
+    if (getA() < 0) throw new Error("negative");
+    return getA() * 2;
+  });
+  const [getDouble, subscribeDouble] = createComputedState(compute, {
+    name: "double",
+    onError,
+  });
+  const callback = jest.fn();
+  subscribeDouble(callback);
+
+  setA(-1);
+  flushSync();
+
+  expect(() => getDouble()).toThrow("negative");
+  expect(() => getDouble()).toThrow("negative");
+  expect(compute).toHaveBeenCalledTimes(2);
+  expect(callback).toHaveBeenCalledTimes(1);
+  expect(onError).toHaveBeenCalledTimes(1);
+  expect(onError.mock.calls[0][1]).toEqual({
+    name: "double",
+    source: "compute",
+  });
+
+  setA(2);
+  flushSync();
+
+  expect(getDouble()).toBe(4);
+  expect(callback).toHaveBeenLastCalledWith(4);
+});
+
+test("a computed state recovering with its previous value should notify subscribers", () => {
+  const [getA, setA] = createState(1);
+  const [, subscribeValue] = createComputedState(
+    () => {
+      if (getA() < 0) throw new Error("negative");
+      return 1;
+    },
+    { onError: () => {} }
+  );
+  const callback = jest.fn();
+  subscribeValue(callback);
+
+  setA(-1);
+  flushSync();
+  setA(2);
+  flushSync();
+
+  expect(callback).toHaveBeenCalledTimes(2);
+  expect(callback).toHaveBeenLastCalledWith(1);
+});
+
+test("a failing hybrid state should rethrow its error until a dependency changes", () => {
+  const onError = jest.fn();
+  const [getA, setA] = createState(1);
+  const [getHybrid, , subscribeHybrid] = createHybridState(
+    () => {
+      if (getA() < 0) throw new Error("negative");
+      return { value: getA() };
+    },
+    { value: 0 },
+    { name: "hybrid", onError }
+  );
+  subscribeHybrid(() => {});
+
+  setA(-1);
+  flushSync();
+
+  expect(() => getHybrid()).toThrow("negative");
+  expect(onError).toHaveBeenCalledTimes(1);
+
+  setA(3);
+  flushSync();
+
+  expect(getHybrid()).toEqual({ value: 3 });
+});
+
+test("overrides should rethrow the error of a hybrid state failing on its first run", () => {
+  const [getA, setA] = createState(-1);
+  const [, setHybrid] = createHybridState(
+    () => {
+      if (getA() < 0) throw new Error("negative");
+      return { x: getA(), y: 0 };
+    },
+    { x: 0, y: 0 },
+    { onError: () => {} }
+  );
+
+  expect(() => setHybrid.overrides()).toThrow("negative");
+
+  setA(1);
+  setHybrid({ y: 2 });
+
+  expect(setHybrid.overrides()).toEqual({
+    overridden: ["y"],
+    derived: ["x"],
+  });
+});
+
+test("a throwing effect should report its error and run again when a dependency changes", () => {
+  const onError = jest.fn();
+  const [getA, setA] = createState(0);
+  const runs = jest.fn();
+  createRoot((disposeRoot) => {
+    createEffect(
+      () => {
+        const value = getA();
+        runs(value);
+        if (value === 1) throw new Error("effect");
+        return () => {
+          if (value === 2) throw new Error("cleanup");
+        };
+      },
+      { name: "effect", onError }
+    );
+
+    setA(1);
+    flushSync();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][1]).toEqual({
+      name: "effect",
+      source: "effect",
+    });
+
+    setA(2);
+    flushSync();
+    setA(3);
+    flushSync();
+
+    expect(runs.mock.calls.map(([value]) => value)).toEqual([0, 1, 2, 3]);
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[1][1]).toEqual({
+      name: "effect",
+      source: "cleanup",
+    });
+    disposeRoot();
+  });
+});
+
+test("a throwing onError handler should not abort the flush", () => {
+  const errorLog = spyOn(console, "error").mockImplementation(() => {});
+  try {
+    const [, setA, subscribeA] = createState(0, {
+      onError: () => {
+        throw new Error("handler");
+      },
+    });
+    const callback = jest.fn();
+    subscribeA((value) => {
+      if (value > 0) throw new Error("boom");
+    });
+    subscribeA(callback);
+
+    setA(1);
+    flushSync();
+
+    expect(callback).toHaveBeenCalledWith(1);
+    expect(errorLog).toHaveBeenCalledTimes(1);
+  } finally {
+    errorLog.mockRestore();
+  }
+});
+
+test("createState should reject invalid values and record their issues", () => {
+  const [getAge, setAge, subscribeAge] = createState(0, {
+    name: "age",
+    validate: (age) => age >= 0 || "Age must be positive",
+  });
+  const subscriber = jest.fn();
+  subscribeAge(subscriber);
+
+  expect(() => setAge(-1)).toThrow(ValidationError);
+  flushSync();
+
+  expect(getAge()).toBe(0);
+  expect(subscriber).toHaveBeenCalledTimes(1);
+  expect(setAge.errors()).toEqual([{ message: "Age must be positive" }]);
+
+  setAge(30);
+
+  expect(getAge()).toBe(30);
+  expect(setAge.errors()).toEqual([]);
+  expect(() => createState(-1, { validate: (age) => age >= 0 })).toThrow(
+    "Invalid value for <anonymous>: Invalid value"
+  );
+});
+
+test("createState should store flagged values and update its errors reactively", () => {
+  const [getEmail, setEmail] = createState("john", {
+    validate: (email) => email.includes("@") || "Invalid email",
+    invalid: "flag",
+  });
+  const [getMessage, subscribeMessage] = createComputedState(
+    () => setEmail.errors()[0]?.message ?? ""
+  );
+  const messages = jest.fn();
+  const errors = jest.fn();
+  subscribeMessage(messages);
+  setEmail.subscribeErrors(errors);
+
+  expect(getEmail()).toBe("john");
+  expect(getMessage()).toBe("Invalid email");
+
+  setEmail("john@example.com");
+  flushSync();
+
+  expect(getEmail()).toBe("john@example.com");
+  expect(messages).toHaveBeenLastCalledWith("");
+  expect(errors).toHaveBeenLastCalledWith([]);
+
+  setEmail("jane");
+  setEmail("doe");
+  flushSync();
+
+  expect(getEmail()).toBe("doe");
+  expect(messages).toHaveBeenCalledTimes(3);
+  expect(errors).toHaveBeenCalledTimes(3);
+});
+
+test("createState should store the output of Standard Schemas", () => {
+  const trimmed: StandardSchema<string> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value) =>
+        typeof value === "string" && value.trim()
+          ? { value: value.trim() }
+          : { issues: [{ message: "Required", path: ["name"] }] },
+    },
+  };
+  const [getName, setName] = createState(" John ", { validate: trimmed });
+
+  expect(getName()).toBe("John");
+
+  setName((prev) => ` ${prev.replace("John", "Jane")} `);
+  expect(getName()).toBe("Jane");
+
+  let error: unknown;
+  try {
+    setName(" ");
+  } catch (e) {
+    error = e;
+  }
+  expect((error as ValidationError).issues).toEqual([
+    { message: "Required", path: ["name"] },
+  ]);
+  expect(setName.errors()).toEqual([{ message: "Required", path: ["name"] }]);
+});
+
+test("validation should run after the middlewares of the state", () => {
+  const [getCount, setCount] = createState(0, {
+    middleware: [{ set: (value) => Math.max(value, 0) }],
+    validate: (value) => value >= 0,
+  });
+
+  setCount(-5);
+
+  expect(getCount()).toBe(0);
+  expect(setCount.errors()).toEqual([]);
+});
+
+test("isTracking should tell whether a computation tracks the reads", () => {
+  const seen: boolean[] = [];
+  const [getA] = createState(0);
+  const [getTracked] = createComputedState(() => {
+    seen.push(isTracking(), untrack(isTracking));
+    return getA();
+  });
+
+  getTracked();
+
+  expect(isTracking()).toBe(false);
+  expect(seen).toEqual([true, false]);
+});
@@ -1,10 +1,74 @@
+import {
+  CycleError,
+  type ErrorContext,
+  type ErrorHandler,
+  type ValidationIssue,
+} from "./errors";
+import {
+  applyNotifyMiddleware,
+  applySetMiddleware,
+  type Middleware,
+  type NotifyContext,
+} from "./middleware";
+import { getIn, setIn, type Path, type PathValue } from "./path";
+import {
+  deepMerge,
+  resolveClone,
+  resolveEquals,
+  resolveMerge,
+  type DeepPartial,
+  type HybridStateOptions,
+  type StateOptions,
+  type ValidatedStateOptions,
+} from "./strategies";
+import { createValidationError, runValidator } from "./validation";
+
+export {
+  CycleError,
+  ValidationError,
+  type ErrorContext,
+  type ErrorHandler,
+  type ValidationIssue,
+} from "./errors";
+export {
+  addMiddleware,
+  freeze,
+  logger,
+  validate,
+  type LoggerOptions,
+  type Middleware,
+  type NotifyContext,
+  type WriteContext,
+} from "./middleware";
+export { getIn, setIn, type Path, type PathValue } from "./path";
+export {
+  runValidator,
+  type StandardSchema,
+  type ValidationResult,
+  type Validator,
+} from "./validation";
+
+export {
+  deepEqual,
+  deepFreeze,
+  deepMerge,
+  shallowEqual,
+  type CloneStrategy,
+  type DeepPartial,
+  type EqualityStrategy,
+  type HybridStateOptions,
+  type MergeStrategy,
+  type StateOptions,
+  type ValidatedStateOptions,
+} from "./strategies";
+
 /**
  * Represents a subscriber function that listens for state changes.
  *
  * @template T - The type of the state.
  * @param {T} value - The current value of the state when the subscriber is notified.
  */
-type Subscriber<T> = (value: T) => void;
+export type Subscriber<T> = (value: T) => void;
 
 /**
  * Getter function to retrieve the current value of the state.
@@ -12,15 +76,167 @@ type Subscriber<T> = (value: T) => void;
  * @template T - The type of the state.
  * @returns {T} - The current value of the state.
  */
-type Getter<T> = () => T;
+export type Getter<T> = () => T;
+
+/**
+ * Function deriving the next value of the state from the previous one.
+ *
+ * @template T - The type of the state.
+ * @template R - The type of the returned value.
+ * @param {T} prev - The current value of the state.
+ * @returns {R} - The next value.
+ */
+export type Updater<T, R = T> = (prev: T) => R;
+
+/**
+ * Function updating the value found at a path inside the state. Accepts
+ * either the new value or an updater receiving the current value at the path.
+ *
+ * @template T - The type of the state.
+ * @param {P} path - The path to update.
+ * @param {PathValue<T, P> | Updater<PathValue<T, P>>} value - The new value or an updater.
+ */
+type PathSetter<T> = <P extends Path<T>>(
+  path: P,
+  value: PathValue<T, P> | Updater<PathValue<T, P>>
+) => void;
+
+/**
+ * Setter function to update the value of the state. Accepts either the new
+ * value or an updater receiving the current value. To store a function as the
+ * value, wrap it in an updater: `set(() => fn)`.
+ *
+ * @template T - The type of the state.
+ * @param {T | Updater<T>} newValue - The new value or an updater.
+ */
+export interface Setter<T> {
+  (newValue: T | Updater<T>): void;
+  /** Immutably updates the value found at a path inside the state. */
+  setIn: PathSetter<T>;
+}
+
+/**
+ * Setter of a state created with a validator, exposing the issues found in
+ * its values.
+ *
+ * @template T - The type of the state.
+ */
+export interface ValidatedSetter<T> extends Setter<T> {
+  /**
+   * Reactive getter returning the issues found in the last value checked,
+   * empty while it is valid.
+   */
+  errors: Getter<readonly ValidationIssue[]>;
+  /** Subscribes to the issues found in the values. */
+  subscribeErrors: SubscriberFn<readonly ValidationIssue[]>;
+}
+
+/**
+ * Top-level keys of a hybrid state, split by where their value comes from.
+ *
+ * @template T - The type of the state.
+ */
+export interface HybridOverrides<T> {
+  /** Keys whose value comes from a manual override. */
+  overridden: (keyof T)[];
+  /** Keys whose value comes from the compute function. */
+  derived: (keyof T)[];
+}
 
 /**
- * Setter function to update the value of the state.
+ * Setter function to update a hybrid state with partial values. Accepts either
+ * the partial value or an updater receiving the current value.
  *
  * @template T - The type of the state.
- * @param {T} newValue - The new value to set for the state.
+ * @template P - The type of the partial values, `DeepPartial<T>` with the deep merge strategy.
+ * @param {P | Updater<T, P>} newValue - The partial value or an updater.
+ */
+export interface HybridSetter<T, P = Partial<T>> {
+  (newValue: P | Updater<T, P>): void;
+  /** Immutably updates the value found at a path, overriding its top-level key. */
+  setIn: PathSetter<T>;
+  /**
+   * Drops the manual override of a key, or every override when no key is
+   * given, falling back to the computed value.
+   */
+  reset(key?: keyof T): void;
+  /**
+   * Returns which top-level keys are currently overridden and which are
+   * derived. Like the getter, rethrows the error of a failed compute function.
+   */
+  overrides(): HybridOverrides<T>;
+}
+
+/**
+ * Function run by an effect. It may return a cleanup function, which runs
+ * before the next execution and when the effect is disposed.
+ */
+type EffectFn = () => void | (() => void);
+
+/**
+ * Options accepted by `createEffect`.
  */
-type Setter<T> = (newValue: T) => void;
+export interface EffectOptions {
+  /** Debug label used in error messages. */
+  name?: string;
+  /** Receives the errors of this effect instead of the global `onError` handler. */
+  onError?: ErrorHandler;
+}
+
+/**
+ * Global configuration of the state manager.
+ */
+export interface Config {
+  /**
+   * Maximum number of passes a single flush may take before it is treated as
+   * a runaway update loop and aborted with a `CycleError`. Defaults to 100.
+   */
+  maxIterations: number;
+  /**
+   * Receives the errors thrown by subscribers, compute functions and effects
+   * during a flush, unless the state or effect has its own handler. Defaults
+   * to logging them with `console.error`.
+   */
+  onError: ErrorHandler;
+}
+
+/**
+ * Status of an async state.
+ *
+ * - `idle`: the async function has not run yet.
+ * - `loading`: a run is in progress.
+ * - `success`: the last run resolved.
+ * - `error`: the last run rejected.
+ */
+export type AsyncStatus = "idle" | "loading" | "success" | "error";
+
+/**
+ * Value of an async state.
+ *
+ * @template T - The type of the resolved data.
+ */
+export interface AsyncState<T> {
+  status: AsyncStatus;
+  /** The data of the last successful run, kept while reloading or after an error. */
+  data: T | undefined;
+  /** The error of the last failed run. */
+  error: unknown;
+}
+
+/**
+ * A scope owning the states, effects and nested scopes created inside it, so
+ * they can be disposed of together.
+ */
+export interface Scope {
+  /**
+   * Runs a function, taking ownership of everything created inside it.
+   * @param {() => T} fn - The function to run.
+   * @returns {T} - The value returned by `fn`.
+   */
+  run<T>(fn: () => T): T;
+  /** Disposes of everything owned by the scope. */
+  dispose(): void;
+}
 
 /**
  * Represents a function to subscribe to state changes.
@@ -29,7 +245,7 @@ type Setter<T> = (newValue: T) => void;
  * @param {Subscriber<T>} fn - A function to call whenever the state changes.
  * @returns {() => void} - A function to unsubscribe from state changes.
  */
-type SubscriberFn<T> = (fn: Subscriber<T>) => () => void;
+export type SubscriberFn<T> = (fn: Subscriber<T>) => () => void;
 
 /**
  * Base interface for representing a state with getter, setter, and subscription capabilities.
@@ -43,16 +259,18 @@ interface State<T> {
 
   /**
    * Adds a dependency to the state.
-   * @param {InternalState<T> | InternalComputedState<T>} dependency - The dependent state to add.
+   * @param {InternalState<any> | InternalComputedState<any>} dependency - The dependency to add.
    */
-  addDependency(dependency: InternalState<T> | InternalComputedState<T>): void;
+  addDependency(
+    dependency: InternalState<any> | InternalComputedState<any>
+  ): void;
 
   /**
    * Removes a dependency from the state.
-   * @param {InternalState<T> | InternalComputedState<T>} dependency - The dependent state to remove.
+   * @param {InternalState<any> | InternalComputedState<any>} dependency - The dependency to remove.
    */
   removeDependency(
-    dependency: InternalState<T> | InternalComputedState<T>
+    dependency: InternalState<any> | InternalComputedState<any>
   ): void;
 }
 
@@ -62,7 +280,11 @@ interface State<T> {
  * @template T - The type of the state.
  */
 interface ComputedState<T> extends State<T> {
-  recompute(): void;
+  /**
+   * Recomputes the value of the state.
+   * @returns {boolean} - Returns true if the value changed, otherwise false.
+   */
+  recompute(): boolean;
 }
 
 /**
@@ -71,8 +293,8 @@ interface ComputedState<T> extends State<T> {
  * @template T - The type of the state.
  */
 interface HybridState<T> extends State<T> {
-  recompute(): void;
-  set: Setter<Partial<T>>;
+  recompute(): boolean;
+  set: HybridSetter<T, any>;
 }
 
 /**
@@ -81,61 +303,562 @@ interface HybridState<T> extends State<T> {
  * @template T - The type of the state.
  */
 interface InternalState<T> extends State<T> {
+  name?: string;
+  kind: NodeKind;
+  onError?: ErrorHandler;
+  /** Returns the current value without tracking or recomputing it. */
+  peek(): T;
+  middleware?: Middleware<T, any>[];
+  /** Whether the library owns the state, which skips every middleware. */
+  internal?: boolean;
   subscribers: Set<Subscriber<T>>;
-  dependents: Set<InternalState<T> | InternalComputedState<T>>;
+  dependents: Set<InternalComputation>;
 }
 
 /**
- * Internal interface for representing a computed state with subscribers and dependents.
+ * Kind of a node of the dependency graph.
+ */
+export type NodeKind = "state" | "computed" | "hybrid" | "effect";
+
+/**
+ * Event reported to the inspector hook.
  *
- * @template T - The type of the computed state.
+ * - `create`: a node was created.
+ * - `set`: a state or hybrid state was set to a new value.
+ * - `recompute`: a computed state, hybrid state or effect ran.
+ * - `notify`: the subscribers of a node were called.
+ * - `dispose`: a node was disposed of.
  */
-interface InternalComputedState<T> extends ComputedState<T> {
+export type InspectorEventType =
+  "create" | "set" | "recompute" | "notify" | "dispose";
+
+/**
+ * Function receiving every graph event while it is installed with
+ * `setInspectorHook`. Nodes are opaque handles, described by `inspectNode`.
+ *
+ * @param {InspectorEventType} type - The type of the event.
+ * @param {object} node - The node the event is about.
+ * @param {unknown} [value] - The value of the node after the event.
+ */
+export type InspectorHook = (
+  type: InspectorEventType,
+  node: object,
+  value?: unknown
+) => void;
+
+/**
+ * Description of a node of the dependency graph, returned by `inspectNode`.
+ */
+export interface NodeInfo {
+  name?: string;
+  kind: NodeKind;
+  /** The current value, read without tracking or recomputing. */
+  value: unknown;
+  status: StateStatus;
+  subscribers: number;
+  /** The nodes read by the node during its last run. */
+  dependencies: object[];
+  /** The nodes that read the node during their last run. */
+  dependents: object[];
+}
+
+/**
+ * Freshness of a computed state during propagation.
+ *
+ * - `clean`: the value is up to date.
+ * - `check`: an indirect dependency changed; the direct dependencies must be
+ *   brought up to date before deciding whether to recompute.
+ * - `dirty`: a direct dependency changed; the value must be recomputed.
+ */
+export type StateStatus = "clean" | "check" | "dirty";
+
+/**
+ * Internal interface for an owner collecting the disposers of everything
+ * created while it is active.
+ */
+interface Owner {
+  disposers: (() => void)[];
+  disposed: boolean;
+}
+
+/**
+ * Internal interface for anything that tracks the states it reads and reruns
+ * when they change: computed states, hybrid states and effects.
+ */
+interface InternalComputation {
+  name?: string;
+  kind: NodeKind;
+  onError?: ErrorHandler;
+  /** Returns the current value without tracking or recomputing it. */
+  peek(): unknown;
+  dependents: Set<InternalComputation>;
+  dependencies: Set<InternalState<any> | InternalComputedState<any>>;
+  status: StateStatus;
+  recompute(): boolean;
+  addDependency(
+    dependency: InternalState<any> | InternalComputedState<any>
+  ): void;
+  removeDependency(
+    dependency: InternalState<any> | InternalComputedState<any>
+  ): void;
+}
+
+/**
+ * Internal interface for computations holding a value. They are lazy: they
+ * only stay attached to their dependencies while observed by a subscriber or
+ * a dependent, and otherwise recompute on read when anything changed since
+ * their last computation.
+ *
+ * @template T - The type of the value.
+ */
+interface InternalDerivedState<T> extends InternalComputation {
+  middleware?: Middleware<T, any>[];
   subscribers: Set<Subscriber<T>>;
-  dependents: Set<InternalState<T> | InternalComputedState<T>>;
+  /** Whether the state is linked to its dependencies and kept up to date. */
+  attached: boolean;
+  /** The global version at which a detached state was last computed. */
+  version: number;
 }
 
+/**
+ * Internal interface for representing a computed state with subscribers and dependents.
+ *
+ * @template T - The type of the computed state.
+ */
+interface InternalComputedState<T>
+  extends ComputedState<T>, InternalDerivedState<T> {}
+
 /**
  * Internal interface for representing a hybrid state with subscribers and dependents.
  *
  * @template T - The type of the hybrid state.
  */
-interface InternalHybridState<T> extends HybridState<T> {
-  subscribers: Set<Subscriber<T>>;
-  dependents: Set<InternalState<T> | InternalComputedState<T>>;
-}
+interface InternalHybridState<T>
+  extends HybridState<T>, InternalDerivedState<T> {}
+
+let currentlyComputing: InternalComputation | null = null;
+// Every computation currently running, outermost first.
+const computeStack: InternalComputation[] = [];
+let currentOwner: Owner | null = null;
 
-let currentlyComputing: InternalComputedState<any> | null = null;
+// Receives graph events while an inspector is attached.
+let inspectorHook: InspectorHook | null = null;
 
-const pendingStates = new Set<State<any>>();
+// Reads the snapshot value of every labeled state created while capturing.
+let capturedStates: Map<string, () => unknown> | null = null;
+// Snapshot values waiting for the labeled state they belong to.
+let hydrationSnapshot: Map<string, unknown> | null = null;
+
+// Maps the getter of every state to the function disposing of it.
+const stateDisposers = new WeakMap<Getter<any>, () => void>();
+
+// States whose subscribers must be notified on the next flush.
+const pendingStates = new Set<
+  InternalState<any> | InternalComputedState<any>
+>();
+// Computations marked stale since the last flush.
+const staleStates = new Set<InternalComputation>();
 let isProcessingPending = false;
+let isFlushing = false;
+let batchDepth = 0;
+// Incremented on every change, so detached states know when to recompute.
+let globalVersion = 0;
+
+const config: Config = {
+  maxIterations: 100,
+  onError: (error) => console.error(error),
+};
+
+/**
+ * Updates the global configuration of the state manager.
+ *
+ * @param {Partial<Config>} options - The options to change.
+ *
+ * @example
+ * ```typescript
+ * configure({ maxIterations: 1000 });
+ * ```
+ */
+export function configure(options: Partial<Config>): void {
+  Object.assign(config, options);
+}
+
+/**
+ * Installs the function receiving every graph event, or removes it with
+ * `null`. Used by the inspector; without a hook, events cost nothing.
+ *
+ * @param {InspectorHook | null} hook - The hook to install.
+ * @returns {InspectorHook | null} - The previously installed hook.
+ */
+export function setInspectorHook(
+  hook: InspectorHook | null
+): InspectorHook | null {
+  const prevHook = inspectorHook;
+  inspectorHook = hook;
+  return prevHook;
+}
+
+/**
+ * Values of labeled states, keyed by their `name`. Hybrid states store their
+ * manual overrides.
+ */
+export type StateSnapshot = Record<string, unknown>;
+
+/**
+ * Runs a function and takes a snapshot of the labeled states and hybrid
+ * states it created, once it returned. Used to render on the server.
+ *
+ * @template T - The type of the result.
+ * @param {() => T} fn - The function creating the states.
+ * @returns {[T, StateSnapshot]} - The result of `fn` and the snapshot.
+ *
+ * @example
+ * ```typescript
+ * const [html, snapshot] = captureStates(() => {
+ *   const [getCount] = createState(1, { name: "count" });
+ *   return `<p>${getCount()}</p>`;
+ * });
+ * console.log(snapshot); // Outputs: { count: 1 }
+ * ```
+ */
+export function captureStates<T>(fn: () => T): [T, StateSnapshot] {
+  const prevCaptured = capturedStates;
+  const captured = new Map<string, () => unknown>();
+  capturedStates = captured;
+  let result: T;
+  try {
+    result = fn();
+  } finally {
+    capturedStates = prevCaptured;
+  }
+  const snapshot: StateSnapshot = {};
+  for (const [name, read] of captured) {
+    snapshot[name] = read();
+  }
+  return [result, snapshot];
+}
+
+/**
+ * Makes the next labeled states and hybrid states created take their value
+ * from a snapshot instead of their initial value, so that subscribers are
+ * only called once, with the snapshot value. Every value is used once, by
+ * the first state created with its name.
+ *
+ * @param {StateSnapshot | null} snapshot - The snapshot, or `null` to drop the unused values.
+ *
+ * @example
+ * ```typescript
+ * hydrateStates({ count: 1 });
+ * const [getCount] = createState(0, { name: "count" });
+ * console.log(getCount()); // Outputs: 1
+ * ```
+ */
+export function hydrateStates(snapshot: StateSnapshot | null): void {
+  hydrationSnapshot = snapshot ? new Map(Object.entries(snapshot)) : null;
+}
+
+/**
+ * Takes the snapshot value of a labeled state, if there is one.
+ *
+ * @param {string | undefined} name - The label of the state.
+ * @returns {{ value: unknown } | undefined} - The value, or undefined.
+ */
+function takeHydratedValue(
+  name: string | undefined
+): { value: unknown } | undefined {
+  if (name === undefined || !hydrationSnapshot?.has(name)) return undefined;
+  const value = hydrationSnapshot.get(name);
+  hydrationSnapshot.delete(name);
+  return { value };
+}
+
+/**
+ * Describes a node received by the inspector hook.
+ *
+ * @param {object} node - The node to describe.
+ * @returns {NodeInfo} - The description of the node.
+ */
+export function inspectNode(node: object): NodeInfo {
+  const internal = node as (InternalState<any> | InternalComputation) &
+    Partial<InternalDerivedState<any>>;
+  return {
+    name: internal.name,
+    kind: internal.kind,
+    value: internal.peek(),
+    status: internal.status ?? "clean",
+    subscribers: internal.subscribers?.size ?? 0,
+    dependencies: Array.from(internal.dependencies ?? []),
+    dependents: Array.from(internal.dependents),
+  };
+}
+
+/**
+ * Runs a computation and reports it to the inspector.
+ *
+ * @param {InternalComputation} state - The computation to run.
+ * @returns {boolean} - Returns true if the value of the computation changed.
+ */
+function recompute(state: InternalComputation): boolean {
+  const changed = state.recompute();
+  inspectorHook?.("recompute", state, state.peek());
+  return changed;
+}
 
 /**
- * Compares two arrays of dependencies to check if they are equal.
+ * Routes an isolated error to the handler of the state it belongs to, or to
+ * the global `onError` handler. Errors thrown by the handler itself are logged
+ * so that they cannot abort a flush.
  *
- * @template T - The type of the state dependencies.
- * @param {Array<InternalState<T> | InternalComputedState<T>>} prevDeps - The previous dependencies.
- * @param {Array<InternalState<T> | InternalComputedState<T>>} nextDeps - The next dependencies.
- * @returns {boolean} - Returns true if the dependencies are equal, otherwise false.
+ * @param {unknown} error - The error to report.
+ * @param {{ name?: string; onError?: ErrorHandler }} state - The state or effect the error belongs to.
+ * @param {ErrorContext["source"]} source - What was running when the error was thrown.
  */
-function isEqual<T>(
-  prevDeps: (InternalState<T> | InternalComputedState<T>)[],
-  nextDeps: (InternalState<T> | InternalComputedState<T>)[]
-): boolean {
-  if (prevDeps.length !== nextDeps.length) return false;
-  for (let i = 0; i < prevDeps.length; i++) {
-    if (prevDeps[i] !== nextDeps[i]) return false;
+function reportError(
+  error: unknown,
+  state: { name?: string; onError?: ErrorHandler },
+  source: ErrorContext["source"]
+): void {
+  const handler = state.onError ?? config.onError;
+  try {
+    handler(error, { name: state.name, source });
+  } catch (handlerError) {
+    console.error(handlerError);
+  }
+}
+
+/**
+ * Calls a subscriber, reporting its error instead of letting it abort the
+ * caller.
+ *
+ * @param {{ name?: string; onError?: ErrorHandler }} state - The state the subscriber listens to.
+ * @param {Subscriber<any>} subscriber - The subscriber to call.
+ * @param {unknown} value - The value passed to the subscriber.
+ */
+function notify(
+  state: { name?: string; onError?: ErrorHandler },
+  subscriber: Subscriber<any>,
+  value: unknown
+): void {
+  try {
+    subscriber(value);
+  } catch (error) {
+    reportError(error, state, "subscriber");
+  }
+}
+
+/**
+ * Returns the label of a state or computation for error messages.
+ *
+ * @param {{ name?: string }} state - The state to describe.
+ * @returns {string} - The label of the state.
+ */
+function describe(state: { name?: string }): string {
+  return state.name ?? "<anonymous>";
+}
+
+/**
+ * Marks a computed state as stale and propagates a `check` status to
+ * everything downstream of it.
+ *
+ * @param {InternalComputation} state - The state to mark.
+ * @param {StateStatus} status - The status to mark the state with.
+ */
+function markStale(state: InternalComputation, status: StateStatus): void {
+  if (state.status === "dirty" || state.status === status) {
+    return;
+  }
+  const wasClean = state.status === "clean";
+  state.status = status;
+  staleStates.add(state);
+  if (wasClean) {
+    for (const dependent of state.dependents) {
+      markStale(dependent, "check");
+    }
+  }
+}
+
+/**
+ * Marks the direct dependents of a state as dirty after its value changed,
+ * and schedules its subscribers to be notified.
+ *
+ * @param {InternalState<any> | InternalComputedState<any>} state - The state that changed.
+ * @param {InternalComputation | null} [reader] - A dependent reading the new value right now, left as is.
+ */
+function markChanged(
+  state: InternalState<any> | InternalComputedState<any>,
+  reader: InternalComputation | null = null
+): void {
+  globalVersion++;
+  for (const dependent of state.dependents) {
+    if (dependent !== reader) {
+      markStale(dependent, "dirty");
+    }
+  }
+  pendingStates.add(state);
+  scheduleProcessing();
+}
+
+/**
+ * Brings a computed state up to date. Dependencies are settled first, so the
+ * state recomputes at most once, and only after everything upstream of it.
+ *
+ * @param {InternalComputation} state - The state to update.
+ */
+function updateIfNecessary(state: InternalComputation): void {
+  if (state.status === "check") {
+    for (const dependency of state.dependencies) {
+      if ("recompute" in dependency) {
+        updateIfNecessary(dependency as InternalComputation);
+      }
+      if ((state.status as StateStatus) === "dirty") {
+        break;
+      }
+    }
+  }
+  const isDirty = state.status === "dirty";
+  // Marked clean before running, so that writes made by the run itself to
+  // the states it reads queue it again
+  state.status = "clean";
+  staleStates.delete(state);
+  // Only computations holding a value report changes. A computation reading
+  // the state while it updates gets the new value, so it stays as is.
+  if (isDirty && recompute(state)) {
+    markChanged(state as InternalComputedState<any>, currentlyComputing);
+  }
+}
+
+/**
+ * Runs a compute function while tracking every state it reads as a dependency
+ * of the given computed state.
+ *
+ * @template T - The type of the computed value.
+ * @param {InternalComputation} state - The state being computed.
+ * @param {() => T} computeFn - The function computing the value.
+ * @returns {T} - The computed value.
+ */
+function track<T>(state: InternalComputation, computeFn: () => T): T {
+  const cycleStart = computeStack.indexOf(state);
+  if (cycleStart !== -1) {
+    const states = [...computeStack.slice(cycleStart), state].map(describe);
+    throw new CycleError(
+      `Cyclic dependency detected: ${states.join(" -> ")}`,
+      states
+    );
+  }
+
+  const prevDeps = Array.from(state.dependencies);
+  for (const dep of prevDeps) {
+    removeDependent(dep.dependents, state);
+  }
+  state.dependencies.clear();
+
+  const prevComputing = currentlyComputing;
+  currentlyComputing = state;
+  computeStack.push(state);
+  try {
+    return computeFn();
+  } finally {
+    computeStack.pop();
+    currentlyComputing = prevComputing;
+    for (const dep of prevDeps) {
+      if (!state.dependencies.has(dep)) {
+        releaseIfUnobserved(dep);
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether a derived state is observed by a subscriber or a dependent.
+ *
+ * @param {InternalDerivedState<any>} state - The state to check.
+ * @returns {boolean} - Returns true if the state is observed.
+ */
+function isObserved(state: InternalDerivedState<any>): boolean {
+  return state.subscribers.size > 0 || state.dependents.size > 0;
+}
+
+/**
+ * Brings a derived state up to date before it is read. Observed states are
+ * attached to their dependencies; unobserved states compute on demand and
+ * stay detached.
+ *
+ * @param {InternalDerivedState<any>} state - The state to refresh.
+ */
+function refresh(state: InternalDerivedState<any>): void {
+  if (state.attached) {
+    updateIfNecessary(state);
+    return;
+  }
+  if (!isObserved(state) && state.version === globalVersion) {
+    return;
+  }
+  recompute(state);
+  if (isObserved(state)) {
+    state.attached = true;
+  } else {
+    detach(state);
+  }
+}
+
+/**
+ * Unlinks a derived state from its dependencies, releasing the ones that are
+ * no longer observed in turn. The state recomputes on its next read.
+ *
+ * @param {InternalDerivedState<any>} state - The state to detach.
+ */
+function detach(state: InternalDerivedState<any>): void {
+  const deps = Array.from(state.dependencies);
+  state.dependencies.clear();
+  for (const dep of deps) {
+    removeDependent(dep.dependents, state);
+    releaseIfUnobserved(dep);
+  }
+  state.version = state.status === "clean" ? globalVersion : -1;
+  state.status = "clean";
+  state.attached = false;
+  staleStates.delete(state);
+}
+
+/**
+ * Detaches a dependency if it is a derived state nobody observes anymore.
+ *
+ * @param {InternalState<any> | InternalComputedState<any>} dep - The dependency to release.
+ */
+function releaseIfUnobserved(
+  dep: InternalState<any> | InternalComputedState<any>
+): void {
+  if ("attached" in dep && dep.attached && !isObserved(dep)) {
+    detach(dep);
   }
-  return true;
 }
 
 /**
  * Schedules the processing of pending states.
  */
 function scheduleProcessing(): void {
+  if (batchDepth > 0) {
+    return;
+  }
   if (!isProcessingPending) {
     isProcessingPending = true;
-    Promise.resolve().then(processPendingStates);
+    Promise.resolve().then(processScheduledStates);
+  }
+}
+
+/**
+ * Runs the flush scheduled on the microtask queue, unless it was cancelled.
+ * Errors aborting the flush go to the global `onError` handler, since there is
+ * no caller to rethrow them to.
+ */
+function processScheduledStates(): void {
+  if (!isProcessingPending) {
+    return;
+  }
+  try {
+    processPendingStates();
+  } catch (error) {
+    reportError(error, {}, "flush");
   }
 }
 
@@ -144,82 +867,393 @@ function scheduleProcessing(): void {
  */
 function processPendingStates(): void {
   isProcessingPending = false;
-  const processedStates = new Set<State<any>>();
-
-  while (pendingStates.size > 0) {
-    const statesToProcess = new Set(pendingStates);
-    pendingStates.clear();
+  if (isFlushing) {
+    return;
+  }
+  isFlushing = true;
+  try {
+    drainPendingStates();
+  } finally {
+    isFlushing = false;
+  }
+}
 
-    for (const state of statesToProcess) {
-      if (processedStates.has(state)) {
-        continue;
+/**
+ * Drains the pending states queue until no more states are scheduled. Each
+ * pass first settles every stale computed state, then notifies subscribers,
+ * so subscribers always observe a consistent snapshot of the graph.
+ */
+function drainPendingStates(): void {
+  let iterations = 0;
+  while (pendingStates.size > 0 || staleStates.size > 0) {
+    if (++iterations > config.maxIterations) {
+      const states = Array.from(
+        new Set([...pendingStates, ...staleStates].map(describe))
+      );
+      // Drop the whole queue, and the flush it scheduled, so that the loop
+      // stops and later flushes do not resume it
+      for (const state of staleStates) {
+        state.status = "clean";
       }
-      if ("recompute" in state) {
-        processedStates.add(state);
-        (state as InternalComputedState<any>).recompute();
-        const value = state.get();
-        const internalState = state as InternalComputedState<any>;
-        for (const subscriber of internalState.subscribers) {
-          subscriber(value);
-        }
+      staleStates.clear();
+      pendingStates.clear();
+      isProcessingPending = false;
+      throw new CycleError(
+        `Update loop detected: states kept changing after ${config.maxIterations} iterations (${states.join(", ")})`,
+        states
+      );
+    }
+
+    for (const state of Array.from(staleStates)) {
+      // Skip computations disposed of by an earlier update in this pass
+      if (staleStates.has(state)) {
+        updateIfNecessary(state);
       }
     }
 
-    for (const state of statesToProcess) {
-      if (processedStates.has(state)) {
+    const statesToNotify = Array.from(pendingStates);
+    pendingStates.clear();
+
+    for (const state of statesToNotify) {
+      let value: unknown;
+      try {
+        value = state.get();
+      } catch (error) {
+        // The compute function of the state failed
+        reportError(error, state, "compute");
         continue;
       }
-      if (!("recompute" in state)) {
-        processedStates.add(state);
-        const internalState = state as InternalState<any>;
-        const value = state.get();
-        for (const subscriber of internalState.subscribers) {
-          subscriber(value);
-        }
+      if (state.subscribers.size > 0) {
+        inspectorHook?.("notify", state, value);
       }
-    }
-
-    // For all processed states, add their dependents to pendingStates
-    for (const state of processedStates) {
-      const internalState = state as InternalState<any>;
-      for (const dependent of internalState.dependents) {
-        if (!processedStates.has(dependent)) {
-          pendingStates.add(dependent);
-        }
+      for (const subscriber of Array.from(state.subscribers)) {
+        notify(state, subscriber, value);
+      }
+      const internal = "internal" in state && state.internal;
+      if (state.subscribers.size > 0 && !internal) {
+        applyNotifyMiddleware(
+          state.middleware,
+          value,
+          { name: state.name, kind: state.kind as NotifyContext["kind"] },
+          (error) => reportError(error, state, "middleware")
+        );
       }
     }
   }
 }
 
 /**
- * Disposes of a state by clearing its subscribers and removing its dependencies.
+ * Runs a function without tracking the states it reads.
+ *
+ * @template T - The return type of the function.
+ * @param {() => T} fn - The function to run.
+ * @returns {T} - The value returned by `fn`.
+ *
+ * @example
+ * ```typescript
+ * createEffect(() => {
+ *   // Reruns when the count changes, but not when the step changes
+ *   console.log(getCount(), untrack(getStep));
+ * });
+ * ```
+ */
+export function untrack<T>(fn: () => T): T {
+  const prevComputing = currentlyComputing;
+  currentlyComputing = null;
+  try {
+    return fn();
+  } finally {
+    currentlyComputing = prevComputing;
+  }
+}
+
+/**
+ * Checks whether a computed state or an effect is running and tracking the
+ * states it reads. Reads made outside of one, or inside `untrack`, are not
+ * tracked.
+ *
+ * @returns {boolean} - Returns true if reads are tracked.
+ *
+ * @example
+ * ```typescript
+ * isTracking(); // false
+ * createEffect(() => console.log(isTracking())); // Outputs: true
+ * ```
+ */
+export function isTracking(): boolean {
+  return currentlyComputing !== null;
+}
+
+/**
+ * Resolves a value or an updater against the previous value.
+ *
+ * @template T - The type of the previous value.
+ * @template R - The type of the resolved value.
+ * @param {R | Updater<T, R>} value - The value or updater to resolve.
+ * @param {T} prev - The previous value.
+ * @returns {R} - The resolved value.
+ */
+function resolveUpdate<T, R>(value: R | Updater<T, R>, prev: T): R {
+  return typeof value === "function" ? (value as Updater<T, R>)(prev) : value;
+}
+
+/**
+ * Creates a setter accepting values, updaters and path updates on top of a
+ * function writing whole values.
  *
  * @template T - The type of the state.
- * @param {Set<Subscriber<T>>} subscribers - The subscribers to clear.
- * @param {Set<InternalState<any> | InternalComputedState<any>>} dependents - The dependents to remove.
- * @param {InternalState<T> | InternalComputedState<T>} state - The state to dispose of.
- */
-function dispose<T>(
-  subscribers: Set<Subscriber<T>>,
-  dependents: Set<InternalState<any> | InternalComputedState<any>>,
-  state: InternalState<T> | InternalComputedState<T>
+ * @param {Getter<T>} read - Reads the current value without tracking it.
+ * @param {(value: T) => void} write - Writes a new value.
+ * @returns {Setter<T>} - The setter.
+ */
+function createSetter<T>(
+  read: Getter<T>,
+  write: (value: T) => void
+): Setter<T> {
+  const setter = ((newValue: T | Updater<T>) =>
+    write(resolveUpdate(newValue, read()))) as Setter<T>;
+  setter.setIn = (path, value) => {
+    const prev = read();
+    write(setIn(prev, path, resolveUpdate(value, getIn(prev, path))));
+  };
+  return setter;
+}
+
+/**
+ * Runs a function and coalesces every state update made inside it into a
+ * single notification pass, delivered synchronously when the outermost batch
+ * returns. Batches can be nested; only the outermost one flushes.
+ *
+ * If the function throws, the updates made before the error are kept and
+ * delivered on the next microtask, and the error is rethrown to the caller.
+ *
+ * @template T - The return type of the function.
+ * @param {() => T} fn - The function performing the updates.
+ * @returns {T} - The value returned by `fn`.
+ *
+ * @example
+ * ```typescript
+ * const [getA, setA, subscribeA] = createState(0);
+ * subscribeA(value => console.log(value)); // Outputs: 0
+ * batch(() => {
+ *   setA(1);
+ *   setA(2);
+ * }); // Outputs: 2
+ * ```
+ */
+export function batch<T>(fn: () => T): T {
+  let result: T;
+  batchDepth++;
+  try {
+    result = fn();
+  } catch (error) {
+    batchDepth--;
+    if (batchDepth === 0) {
+      scheduleProcessing();
+    }
+    throw error;
+  }
+  batchDepth--;
+  if (batchDepth === 0) {
+    flushSync();
+  }
+  return result;
+}
+
+/**
+ * Immediately processes all pending states and notifies their subscribers,
+ * instead of waiting for the scheduled microtask. Calling it while a flush is
+ * already running is a no-op; the running flush picks up any new updates.
+ * Inside a batch, the flush is deferred to the end of the outermost batch, so
+ * that subscribers never observe a half-applied batch.
+ *
+ * @example
+ * ```typescript
+ * const [_, setA, subscribeA] = createState(0);
+ * subscribeA(value => console.log(value)); // Outputs: 0
+ * setA(1);
+ * flushSync(); // Outputs: 1
+ * ```
+ */
+export function flushSync(): void {
+  if (batchDepth > 0) {
+    return;
+  }
+  processPendingStates();
+}
+
+/**
+ * Disposes of a state by clearing its subscribers and unlinking it from both
+ * its dependents and its dependencies.
+ *
+ * @param {InternalState<any> | InternalComputedState<any>} state - The state to dispose of.
+ */
+function disposeState(
+  state: InternalState<any> | InternalComputedState<any>
 ): void {
-  subscribers.clear();
-  for (const dependent of dependents) {
+  state.subscribers.clear();
+  for (const dependent of state.dependents) {
     dependent.removeDependency(state);
   }
-  dependents.clear();
+  state.dependents.clear();
+  if ("attached" in state) {
+    detach(state);
+  }
+  pendingStates.delete(state);
+  inspectorHook?.("dispose", state);
+}
+
+/**
+ * Creates an owner.
+ *
+ * @returns {Owner} - The new owner.
+ */
+function createOwner(): Owner {
+  return { disposers: [], disposed: false };
+}
+
+/**
+ * Registers a disposer with the current owner, if any.
+ *
+ * @param {() => void} disposer - The function to run when the owner is disposed.
+ */
+function own(disposer: () => void): void {
+  currentOwner?.disposers.push(disposer);
+}
+
+/**
+ * Runs a function with the given owner as the current owner.
+ *
+ * @template T - The return type of the function.
+ * @param {Owner | null} owner - The owner to use.
+ * @param {() => T} fn - The function to run.
+ * @returns {T} - The value returned by `fn`.
+ */
+function runWithOwner<T>(owner: Owner | null, fn: () => T): T {
+  const prevOwner = currentOwner;
+  currentOwner = owner;
+  try {
+    return fn();
+  } finally {
+    currentOwner = prevOwner;
+  }
+}
+
+/**
+ * Runs and clears the disposers of an owner, most recent first.
+ *
+ * @param {Owner} owner - The owner whose disposers to run.
+ */
+function disposeOwner(owner: Owner): void {
+  const disposers = owner.disposers.splice(0);
+  for (let i = disposers.length - 1; i >= 0; i--) {
+    disposers[i]();
+  }
+}
+
+/**
+ * Registers the disposer of a state, making it available to `dispose` and
+ * owned by the current owner.
+ *
+ * @param {Getter<any>} get - The getter of the state.
+ * @param {() => void} disposer - The function disposing of the state.
+ */
+function registerState(get: Getter<any>, disposer: () => void): void {
+  let disposed = false;
+  const disposeOnce = (): void => {
+    if (disposed) return;
+    disposed = true;
+    disposer();
+  };
+  stateDisposers.set(get, disposeOnce);
+  own(disposeOnce);
+}
+
+/**
+ * Creates a scope owning every state, computed state, hybrid state, effect
+ * and nested scope created inside `scope.run`. Scopes created inside another
+ * scope are disposed of with it.
+ *
+ * @returns {Scope} - The new scope.
+ *
+ * @example
+ * ```typescript
+ * const scope = createScope();
+ * const [getDouble] = scope.run(() => {
+ *   createEffect(() => console.log(getCount()));
+ *   return createComputedState(() => getCount() * 2);
+ * });
+ * scope.dispose(); // Stops the effect and unlinks the computed state
+ * ```
+ */
+export function createScope(): Scope {
+  const owner = createOwner();
+  const scope: Scope = {
+    run<T>(fn: () => T): T {
+      if (owner.disposed) {
+        throw new Error("Cannot run a function in a disposed scope");
+      }
+      return runWithOwner(owner, fn);
+    },
+    dispose(): void {
+      if (owner.disposed) return;
+      owner.disposed = true;
+      disposeOwner(owner);
+    },
+  };
+  own(scope.dispose);
+  return scope;
+}
+
+/**
+ * Runs a function in a new root scope. Unlike `createScope`, the root is not
+ * owned by the surrounding scope and does not track the states it reads, so
+ * it lives until its `dispose` function is called.
+ *
+ * @template T - The return type of the function.
+ * @param {(dispose: () => void) => T} fn - The function to run. It receives the function disposing of the root.
+ * @returns {T} - The value returned by `fn`.
+ *
+ * @example
+ * ```typescript
+ * const disposeRoot = createRoot((dispose) => {
+ *   createEffect(() => console.log(getCount()));
+ *   return dispose;
+ * });
+ * disposeRoot();
+ * ```
+ */
+export function createRoot<T>(fn: (dispose: () => void) => T): T {
+  const scope = runWithOwner(null, createScope);
+  return untrack(() => scope.run(() => fn(scope.dispose)));
+}
+
+/**
+ * Disposes of a state: its subscribers are removed and it is unlinked from
+ * the dependency graph. Effects are disposed of with the function returned by
+ * `createEffect`.
+ *
+ * @param {Getter<any>} state - The getter of the state to dispose of.
+ *
+ * @example
+ * ```typescript
+ * const [getDouble, subscribeDouble] = createComputedState(() => getCount() * 2);
+ * dispose(getDouble);
+ * ```
+ */
+export function dispose(state: Getter<any>): void {
+  stateDisposers.get(state)?.();
 }
 
 /**
  * Adds a dependent state to the list of dependents.
  *
- * @param {Set<InternalState<any> | InternalComputedState<any>>} dependents - The set of dependents.
- * @param {InternalState<any> | InternalComputedState<any>} dependent - The dependent state to add.
+ * @param {Set<InternalComputation>} dependents - The set of dependents.
+ * @param {InternalComputation} dependent - The dependent state to add.
  */
 function addDependent(
-  dependents: Set<InternalState<any> | InternalComputedState<any>>,
-  dependent: InternalState<any> | InternalComputedState<any>
+  dependents: Set<InternalComputation>,
+  dependent: InternalComputation
 ): void {
   dependents.add(dependent);
 }
@@ -227,12 +1261,12 @@ function addDependent(
 /**
  * Removes a dependent state from the list of dependents.
  *
- * @param {Set<InternalState<any> | InternalComputedState<any>>} dependents - The set of dependents.
- * @param {InternalState<any> | InternalComputedState<any>} dependent - The dependent state to remove.
+ * @param {Set<InternalComputation>} dependents - The set of dependents.
+ * @param {InternalComputation} dependent - The dependent state to remove.
  */
 function removeDependent(
-  dependents: Set<InternalState<any> | InternalComputedState<any>>,
-  dependent: InternalState<any> | InternalComputedState<any>
+  dependents: Set<InternalComputation>,
+  dependent: InternalComputation
 ): void {
   dependents.delete(dependent);
 }
@@ -242,6 +1276,7 @@ function removeDependent(
  *
  * @template T - The type of the state.
  * @param {T} initialValue - The initial value of the state.
+ * @param {StateOptions<T>} [options] - Equality, clone and validation options for the state.
  * @returns {[Getter<T>, Setter<T>, SubscriberFn<T>]} - A tuple containing:
  *   - A getter function to retrieve the current state.
  *   - A setter function to update the state.
@@ -253,16 +1288,66 @@ function removeDependent(
  * subscribe(value => console.log(value));
  * setState(1);
  * console.log(getState()); // Outputs: 1
+ * setState((prev) => prev + 1);
+ * console.log(getState()); // Outputs: 2
+ *
+ * // Store class instances as is and skip notifications for equal objects
+ * const [getUser, setUser] = createState(new User(), {
+ *   equals: "deep",
+ *   clone: "none",
+ * });
+ *
+ * // Keep invalid values but list their issues
+ * const [getEmail, setEmail] = createState("", {
+ *   validate: (email) => email.includes("@") || "Invalid email",
+ *   invalid: "flag",
+ * });
+ * setEmail("john");
+ * console.log(setEmail.errors()); // Outputs: [{ message: "Invalid email" }]
  * ```
  */
 export function createState<T>(
-  initialValue: T
+  initialValue: T,
+  options: ValidatedStateOptions<T>
+): [Getter<T>, ValidatedSetter<T>, SubscriberFn<T>];
+export function createState<T>(
+  initialValue: T,
+  options?: StateOptions<T>
+): [Getter<T>, Setter<T>, SubscriberFn<T>];
+export function createState<T>(
+  initialValue: T,
+  options: StateOptions<T> & Partial<ValidatedStateOptions<T>> = {}
 ): [Getter<T>, Setter<T>, SubscriberFn<T>] {
-  let _value = structuredClone(initialValue);
+  const equals = resolveEquals(options.equals);
+  const clone = resolveClone(options.clone);
+  const { validate: validator, invalid = "reject" } = options;
+  const hydrated = takeHydratedValue(options.name);
+  if (hydrated) initialValue = hydrated.value as T;
+  const initial = validator
+    ? runValidator(validator, initialValue)
+    : { value: initialValue };
+  if (initial.issues && invalid === "reject") {
+    throw createValidationError(options.name, initial.issues);
+  }
+  let _value = clone(initial.issues ? initialValue : initial.value);
+  const errors =
+    validator &&
+    createState<readonly ValidationIssue[]>(initial.issues ?? [], {
+      name: options.name && `${options.name}.errors`,
+      equals: "deep",
+      clone: "freeze",
+      internal: true,
+    });
   const subscribers = new Set<Subscriber<T>>();
-  const dependents = new Set<InternalState<T> | InternalComputedState<T>>();
+  const dependents = new Set<InternalComputation>();
 
   const state: InternalState<T> = {
+    name: options.name,
+    kind: "state",
+    onError: options.onError,
+    middleware: options.middleware,
+    internal: options.internal,
+    peek: () => _value,
     get(): T {
       if (currentlyComputing) {
         currentlyComputing.addDependency(state);
@@ -270,41 +1355,70 @@ export function createState<T>(
       }
       return _value;
     },
-    set(newValue: T): void {
-      if (_value !== newValue) {
-        _value = structuredClone(newValue);
-        pendingStates.add(state);
-        scheduleProcessing();
+    set: createSetter(
+      () => _value,
+      (value) => {
+        let newValue = state.internal
+          ? value
+          : applySetMiddleware(state.middleware, value, {
+              name: state.name,
+              kind: "state",
+              prev: _value,
+            });
+        if (validator && errors) {
+          const result = runValidator(validator, newValue);
+          errors[1](result.issues ?? []);
+          if (!result.issues) {
+            newValue = result.value;
+          } else if (invalid === "reject") {
+            throw createValidationError(state.name, result.issues);
+          }
+        }
+        if (!equals(_value, newValue)) {
+          _value = clone(newValue);
+          inspectorHook?.("set", state, _value);
+          markChanged(state);
+        }
       }
-    },
+    ),
     subscribe(fn: Subscriber<T>): () => void {
       subscribers.add(fn);
-      fn(_value);
+      notify(state, fn, _value);
       return () => {
         subscribers.delete(fn);
-        if (subscribers.size === 0 && dependents.size === 0) {
-          dispose(subscribers, dependents, state);
-        }
       };
     },
     subscribers,
     dependents,
-    addDependency(dep: InternalState<T> | InternalComputedState<T>): void {
-      dependents.add(dep);
-    },
-    removeDependency(dep: InternalState<T> | InternalComputedState<T>): void {
-      dependents.delete(dep);
-    },
+    // A plain state never depends on other states.
+    addDependency(): void {},
+    removeDependency(): void {},
   };
 
+  if (errors) {
+    Object.assign(state.set, { errors: errors[0], subscribeErrors: errors[2] });
+  }
+
+  registerState(state.get, () => {
+    disposeState(state);
+    if (errors) dispose(errors[0]);
+  });
+  if (state.name !== undefined) capturedStates?.set(state.name, state.peek);
+  inspectorHook?.("create", state);
+
   return [state.get, state.set, state.subscribe];
 }
 
 /**
  * Creates a computed state, which derives its value from a function.
  *
+ * Computed states are lazy: the value is computed on first read, kept up to
+ * date only while it has subscribers or dependents, and otherwise recomputed
+ * on read when something changed since the last computation.
+ *
  * @template T - The type of the state.
  * @param {() => T} computeFn - A function that computes the value of the state.
+ * @param {StateOptions<T>} [options] - Equality and clone strategies for the state.
  * @returns {[Getter<T>, SubscriberFn<T>]} - A tuple containing:
  *   - A getter function to retrieve the computed state.
  *   - A subscriber function to listen for state changes.
@@ -316,85 +1430,104 @@ export function createState<T>(
  * ```
  */
 export function createComputedState<T>(
-  computeFn: () => T
+  computeFn: () => T,
+  options: StateOptions<T> = {}
 ): [Getter<T>, SubscriberFn<T>] {
+  const equals = resolveEquals(options.equals);
+  const clone = resolveClone(options.clone);
   let _value: T;
+  let _error: { error: unknown } | null = null;
+  let initialized = false;
   const subscribers = new Set<Subscriber<T>>();
-  const dependencies = new Set<InternalState<T> | InternalComputedState<T>>();
-  const dependents = new Set<InternalState<T> | InternalComputedState<T>>();
-  let lastDeps: (InternalState<T> | InternalComputedState<T>)[] = [];
+  const dependencies = new Set<
+    InternalState<any> | InternalComputedState<any>
+  >();
+  const dependents = new Set<InternalComputation>();
   const computedState: InternalComputedState<T> = {
+    name: options.name,
+    kind: "computed",
+    onError: options.onError,
+    middleware: options.middleware,
+    peek: () => (_error ? undefined : _value),
     get(): T {
       if (currentlyComputing && currentlyComputing !== computedState) {
         currentlyComputing.addDependency(computedState);
         addDependent(dependents, currentlyComputing);
       }
+      refresh(computedState);
+      if (_error) {
+        throw _error.error;
+      }
       return _value;
     },
-    set(_: T): void {
-      throw new Error("Cannot set value of a computed state");
-    },
+    set: createSetter(
+      () => _value,
+      () => {
+        throw new Error("Cannot set value of a computed state");
+      }
+    ),
     subscribe(fn: Subscriber<T>): () => void {
       subscribers.add(fn);
-      fn(_value);
+      refresh(computedState);
+      if (_error) {
+        reportError(_error.error, computedState, "compute");
+      } else {
+        notify(computedState, fn, _value);
+      }
       return () => {
         subscribers.delete(fn);
-        if (
-          subscribers.size === 0 &&
-          dependencies.size === 0 &&
-          dependents.size === 0
-        ) {
-          dispose(subscribers, dependents, computedState);
+        if (computedState.attached && !isObserved(computedState)) {
+          detach(computedState);
         }
       };
     },
-    recompute(): void {
-      for (const dep of dependencies) {
-        removeDependent(dep.dependents, computedState);
-      }
-
-      dependencies.clear();
-
-      const prevComputing = currentlyComputing;
-      currentlyComputing = computedState;
-
-      const newValue = computeFn();
-      const nextDeps = Array.from(dependencies);
-      if (!isEqual(lastDeps, nextDeps)) {
-        _value = structuredClone(newValue);
-        lastDeps = nextDeps;
-      }
-      currentlyComputing = prevComputing;
-
-      if (_value !== newValue) {
-        _value = structuredClone(newValue);
-        pendingStates.add(computedState);
-        scheduleProcessing();
+    recompute(): boolean {
+      const hadError = _error !== null;
+      try {
+        const newValue = track(computedState, computeFn);
+        _error = null;
+        if (initialized && !hadError && equals(_value, newValue)) {
+          return false;
+        }
+        _value = clone(newValue);
+        initialized = true;
+      } catch (error) {
+        // Keep the error until a dependency changes
+        _error = { error };
       }
+      return true;
     },
-    addDependency(dep: InternalState<T> | InternalComputedState<T>): void {
+    addDependency(dep: InternalState<any> | InternalComputedState<any>): void {
       dependencies.add(dep);
     },
-    removeDependency(dep: InternalState<T> | InternalComputedState<T>): void {
+    removeDependency(
+      dep: InternalState<any> | InternalComputedState<any>
+    ): void {
       dependencies.delete(dep);
     },
     subscribers,
     dependents,
+    dependencies,
+    status: "clean",
+    attached: false,
+    version: -1,
   };
 
-  // Initialize the value
-  computedState.recompute();
+  registerState(computedState.get, () => disposeState(computedState));
+  inspectorHook?.("create", computedState);
 
   return [computedState.get, computedState.subscribe];
 }
 
 /**
  * Creates a hybrid state that combines computed and manual state management.
+ * Like computed states, hybrid states are computed lazily.
  *
  * @template T - The type of the state object.
  * @param {() => T} computeFn - A function that computes the initial state.
  * @param {T} initialValue - The initial value of the state.
- * @returns {[Getter<T>, Setter<Partial<T>>, SubscriberFn<T>]} - A tuple containing:
+ * @param {HybridStateOptions<T>} [options] - Equality, clone and merge strategies for the state.
+ * @returns {[Getter<T>, HybridSetter<T>, SubscriberFn<T>]} - A tuple containing:
  *   - A getter function to retrieve the current state.
  *   - A setter function to update the state with partial values.
  *   - A subscriber function to listen for state changes.
@@ -412,98 +1545,352 @@ export function createComputedState<T>(
  *
  * setState({ count: 1 });
  * console.log(getState().count); // Outputs: 1
+ * setState((prev) => ({ count: prev.count + 1 }));
+ * console.log(getState().count); // Outputs: 2
+ * setState.reset("count");
+ * console.log(getState().count); // Outputs: 0
+ *
+ * // Merge nested overrides instead of replacing whole keys
+ * const [getUser, setUser] = createHybridState(
+ *   () => ({ name: { first: "John", last: "Doe" } }),
+ *   { name: { first: "John", last: "Doe" } },
+ *   { merge: "deep" }
+ * );
+ * setUser({ name: { first: "Jane" } });
+ * console.log(getUser().name); // Outputs: { first: "Jane", last: "Doe" }
  * ```
  */
 export function createHybridState<T extends object>(
   computeFn: () => T,
-  initialValue: T
-): [Getter<T>, Setter<Partial<T>>, SubscriberFn<T>] {
-  let _value = structuredClone(initialValue);
+  initialValue: T,
+  options: HybridStateOptions<T> & { merge: "deep" }
+): [Getter<T>, HybridSetter<T, DeepPartial<T>>, SubscriberFn<T>];
+export function createHybridState<T extends object>(
+  computeFn: () => T,
+  initialValue: T,
+  options?: HybridStateOptions<T>
+): [Getter<T>, HybridSetter<T>, SubscriberFn<T>];
+export function createHybridState<T extends object>(
+  computeFn: () => T,
+  initialValue: T,
+  options: HybridStateOptions<T> = {}
+): [Getter<T>, HybridSetter<T, any>, SubscriberFn<T>] {
+  const equals = resolveEquals(options.equals);
+  const clone = resolveClone(options.clone);
+  const merge = resolveMerge(options.merge);
+  let _value = clone(initialValue);
+  let _computed: T;
+  let _error: { error: unknown } | null = null;
   const subscribers = new Set<Subscriber<T>>();
-  const dependencies = new Set<InternalState<T> | InternalComputedState<T>>();
-  const dependents = new Set<InternalState<T> | InternalComputedState<T>>();
-  let lastDeps: (InternalState<T> | InternalComputedState<T>)[] = [];
-  let manualOverride: Partial<T> | null = null;
+  const dependencies = new Set<
+    InternalState<any> | InternalComputedState<any>
+  >();
+  const dependents = new Set<InternalComputation>();
+  let manualOverride = (takeHydratedValue(options.name)?.value ??
+    null) as Partial<T> | null;
+
+  const read = (): T => {
+    refresh(hybridState);
+    return _value;
+  };
+  const apply = (): void => {
+    const nextValue = clone(
+      manualOverride ? merge(_computed, manualOverride) : _computed
+    );
+    if (!equals(_value, nextValue)) {
+      _value = nextValue;
+      inspectorHook?.("set", hybridState, _value);
+      markChanged(hybridState);
+    }
+  };
+  const write = (partialValue: Partial<T>): void => {
+    refresh(hybridState);
+    const newPartialValue = applySetMiddleware(
+      options.middleware,
+      partialValue,
+      { name: options.name, kind: "hybrid", prev: _value }
+    );
+    manualOverride =
+      options.merge === "deep"
+        ? deepMerge(manualOverride ?? {}, newPartialValue as DeepPartial<T>)
+        : { ...manualOverride, ...newPartialValue };
+    apply();
+  };
+  const set = ((newValue: Partial<T> | Updater<T, Partial<T>>) =>
+    write(resolveUpdate(newValue, read()))) as HybridSetter<T>;
+  set.setIn = (path, value) => {
+    const prev = read();
+    const next = setIn(prev, path, resolveUpdate(value, getIn(prev, path)));
+    const key = path[0] as keyof T;
+    write({ [key]: next[key] } as Partial<T>);
+  };
+  set.reset = (key) => {
+    refresh(hybridState);
+    if (!manualOverride) return;
+    if (key === undefined) {
+      manualOverride = null;
+    } else {
+      const { [key]: _, ...rest } = manualOverride;
+      manualOverride =
+        Object.keys(rest).length > 0 ? (rest as Partial<T>) : null;
+    }
+    apply();
+  };
+  set.overrides = () => {
+    refresh(hybridState);
+    // Without a computed value, the derived keys are unknown
+    if (_error) {
+      throw _error.error;
+    }
+    const overridden = Object.keys(manualOverride ?? {}) as (keyof T)[];
+    const derived = (Object.keys(_computed) as (keyof T)[]).filter(
+      (key) => !overridden.includes(key)
+    );
+    return { overridden, derived };
+  };
 
   const hybridState: InternalHybridState<T> = {
+    name: options.name,
+    kind: "hybrid",
+    onError: options.onError,
+    middleware: options.middleware,
+    peek: () => (_error ? undefined : _value),
     get(): T {
       if (currentlyComputing && currentlyComputing !== hybridState) {
         currentlyComputing.addDependency(hybridState);
         addDependent(dependents, currentlyComputing);
       }
+      refresh(hybridState);
+      if (_error) {
+        throw _error.error;
+      }
       return _value;
     },
-    set(newPartialValue: Partial<T>): void {
-      manualOverride = { ...manualOverride, ...newPartialValue };
-      _value = {
-        ...structuredClone(_value),
-        ...manualOverride,
-      };
-
-      pendingStates.add(hybridState);
-      scheduleProcessing();
-    },
+    set,
     subscribe(fn: Subscriber<T>): () => void {
       subscribers.add(fn);
-      fn(_value);
+      refresh(hybridState);
+      if (_error) {
+        reportError(_error.error, hybridState, "compute");
+      } else {
+        notify(hybridState, fn, _value);
+      }
       return () => {
         subscribers.delete(fn);
-        if (
-          subscribers.size === 0 &&
-          dependencies.size === 0 &&
-          dependents.size === 0
-        ) {
-          dispose(subscribers, dependents, hybridState);
+        if (hybridState.attached && !isObserved(hybridState)) {
+          detach(hybridState);
         }
       };
     },
-    recompute(): void {
-      for (const dep of dependencies) {
-        removeDependent(dep.dependents, hybridState);
+    recompute(): boolean {
+      const hadError = _error !== null;
+      try {
+        _computed = track(hybridState, computeFn);
+        const nextValue = clone(
+          manualOverride ? merge(_computed, manualOverride) : _computed
+        );
+        _error = null;
+        if (!hadError && equals(_value, nextValue)) {
+          return false;
+        }
+        _value = nextValue;
+      } catch (error) {
+        // Keep the error until a dependency changes
+        _error = { error };
       }
+      return true;
+    },
+    addDependency(dep: InternalState<any> | InternalComputedState<any>): void {
+      dependencies.add(dep);
+    },
+    removeDependency(
+      dep: InternalState<any> | InternalComputedState<any>
+    ): void {
+      dependencies.delete(dep);
+    },
+    subscribers,
+    dependents,
+    dependencies,
+    status: "clean",
+    attached: false,
+    version: -1,
+  };
 
-      dependencies.clear();
+  registerState(hybridState.get, () => disposeState(hybridState));
+  if (options.name !== undefined) {
+    capturedStates?.set(options.name, () => manualOverride ?? {});
+  }
+  inspectorHook?.("create", hybridState);
 
-      const prevComputing = currentlyComputing;
-      currentlyComputing = hybridState;
+  return [hybridState.get, hybridState.set, hybridState.subscribe];
+}
 
-      const newValue = computeFn();
-      const nextDeps = Array.from(dependencies);
+/**
+ * Creates an effect, which runs a function immediately and reruns it during
+ * the next flush whenever a state it read changes. Dependencies are tracked
+ * automatically on every run.
+ *
+ * States and effects created during a run are disposed of before the next run
+ * and when the effect is disposed.
+ *
+ * @param {EffectFn} fn - The function to run. It may return a cleanup function.
+ * @param {EffectOptions} [options] - Options for the effect.
+ * @returns {() => void} - A function disposing of the effect and running its cleanup.
+ *
+ * @example
+ * ```typescript
+ * const [getCount, setCount] = createState(0);
+ * const dispose = createEffect(() => {
+ *   const id = setInterval(() => console.log(getCount()), 1000);
+ *   return () => clearInterval(id);
+ * });
+ * setCount(1); // The interval is recreated on the next flush
+ * dispose(); // The interval is cleared
+ * ```
+ */
+export function createEffect(
+  fn: EffectFn,
+  options: EffectOptions = {}
+): () => void {
+  let cleanup: void | (() => void);
+  let disposed = false;
+  // Owns the states and effects created by the last run
+  const children = createOwner();
+  const dependencies = new Set<
+    InternalState<any> | InternalComputedState<any>
+  >();
 
-      if (!isEqual(lastDeps, nextDeps)) {
-        lastDeps = nextDeps;
+  const runCleanup = (): void => {
+    const prevCleanup = cleanup;
+    cleanup = undefined;
+    if (prevCleanup) {
+      try {
+        untrack(prevCleanup);
+      } catch (error) {
+        reportError(error, effect, "cleanup");
       }
+    }
+  };
 
-      currentlyComputing = prevComputing;
-
-      if (manualOverride) {
-        _value = {
-          ...structuredClone(newValue),
-          ...manualOverride,
-        };
-      } else {
-        _value = structuredClone(newValue);
+  const effect: InternalComputation = {
+    name: options.name,
+    kind: "effect",
+    onError: options.onError,
+    peek: () => undefined,
+    dependents: new Set<InternalComputation>(),
+    dependencies,
+    status: "clean",
+    recompute(): boolean {
+      runCleanup();
+      disposeOwner(children);
+      try {
+        cleanup = runWithOwner(children, () => track(effect, fn));
+      } catch (error) {
+        // The states read before the error stay tracked, so the effect
+        // reruns when one of them changes
+        reportError(error, effect, "effect");
       }
-
-      pendingStates.add(hybridState);
-      scheduleProcessing();
+      return false;
     },
-    addDependency(dep: InternalState<T> | InternalComputedState<T>): void {
+    addDependency(dep: InternalState<any> | InternalComputedState<any>): void {
       dependencies.add(dep);
     },
-    removeDependency(dep: InternalState<T> | InternalComputedState<T>): void {
+    removeDependency(
+      dep: InternalState<any> | InternalComputedState<any>
+    ): void {
       dependencies.delete(dep);
     },
-    subscribers,
-    dependents,
   };
 
-  // Initialize the value
-  hybridState.recompute();
+  inspectorHook?.("create", effect);
+  // Run the effect once to collect its dependencies
+  recompute(effect);
+
+  const disposeEffect = (): void => {
+    if (disposed) return;
+    disposed = true;
+    for (const dep of dependencies) {
+      removeDependent(dep.dependents, effect);
+      releaseIfUnobserved(dep);
+    }
+    dependencies.clear();
+    effect.status = "clean";
+    staleStates.delete(effect);
+    runCleanup();
+    disposeOwner(children);
+    inspectorHook?.("dispose", effect);
+  };
+  own(disposeEffect);
+
+  return disposeEffect;
+}
+
+/**
+ * Creates an async state, which derives its value from an async function.
+ * States read before the first `await` are tracked as dependencies; when one
+ * of them changes, the previous run is aborted through its `AbortSignal` and
+ * the function runs again. Resolutions of stale runs are ignored.
+ *
+ * @template T - The type of the resolved data.
+ * @param {(signal: AbortSignal) => Promise<T>} fetchFn - The async function computing the data.
+ * @param {EffectOptions} [options] - Options for the async state.
+ * @returns {[Getter<AsyncState<T>>, SubscriberFn<AsyncState<T>>]} - A tuple containing:
+ *   - A getter function to retrieve the status, data and error.
+ *   - A subscriber function to listen for changes.
+ *
+ * @example
+ * ```typescript
+ * const [getUserId, setUserId] = createState(1);
+ * const [getUser, subscribeUser] = createAsyncState(async (signal) => {
+ *   const id = getUserId(); // Read before the first await to be tracked
+ *   const res = await fetch(`/users/${id}`, { signal });
+ *   return res.json();
+ * });
+ * subscribeUser(({ status, data }) => console.log(status, data));
+ * setUserId(2); // Aborts the running request and fetches the new user
+ * ```
+ */
+export function createAsyncState<T>(
+  fetchFn: (signal: AbortSignal) => Promise<T>,
+  options: EffectOptions = {}
+): [Getter<AsyncState<T>>, SubscriberFn<AsyncState<T>>] {
+  const [get, set, subscribe] = createState<AsyncState<T>>(
+    { status: "idle", data: undefined, error: undefined },
+    { clone: "none", name: options.name, internal: true }
+  );
+
+  const disposeEffect = createEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    let promise: Promise<T>;
+    try {
+      promise = fetchFn(signal);
+    } catch (error) {
+      promise = Promise.reject(error);
+    }
+
+    set((prev) => ({ status: "loading", data: prev.data, error: undefined }));
+    promise.then(
+      (data) => {
+        if (!signal.aborted) {
+          set({ status: "success", data, error: undefined });
+        }
+      },
+      (error) => {
+        if (!signal.aborted) {
+          set((prev) => ({ status: "error", data: prev.data, error }));
+        }
+      }
+    );
+
+    return () => controller.abort();
+  }, options);
+
+  const disposeResult = stateDisposers.get(get)!;
+  registerState(get, () => {
+    disposeEffect();
+    disposeResult();
+  });
 
-  return [
-    hybridState.get,
-    hybridState.set as Setter<Partial<T>>,
-    hybridState.subscribe,
-  ];
+  return [get, subscribe];
 }
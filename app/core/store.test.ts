@@ -0,0 +1,124 @@
+import { createEffect, createRoot, flushSync } from "./statemanager";
+import { createStore } from "./store";
+import { expect, test, jest } from "bun:test";
+
+const createCounter = () =>
+  createStore({
+    name: "counter",
+    state: { count: 0, user: { name: "John" } },
+    getters: {
+      double: (state) => state.count * 2,
+      greeting: (state) => `Hello ${state.user.name}`,
+    },
+    actions: {
+      increment(by: number = 1) {
+        this.count += by;
+      },
+      rename(name: string) {
+        this.user = { ...this.user, name };
+        this.increment();
+        return this.greeting;
+      },
+    },
+  });
+
+test("createStore should expose state fields and getters as properties", () => {
+  const counter = createCounter();
+
+  expect(counter.count).toBe(0);
+  expect(counter.user).toEqual({ name: "John" });
+  expect(counter.double).toBe(0);
+  expect(counter.greeting).toBe("Hello John");
+});
+
+test("store actions should update the state and return their result", () => {
+  const counter = createCounter();
+
+  counter.increment(2);
+  expect(counter.count).toBe(2);
+  expect(counter.double).toBe(4);
+
+  expect(counter.rename("Jane")).toBe("Hello Jane");
+  expect(counter.count).toBe(3);
+});
+
+test("store subscribers should be notified once per action", () => {
+  const counter = createCounter();
+  const subscriber = jest.fn();
+  counter.subscribe(subscriber);
+
+  counter.rename("Jane");
+
+  expect(subscriber).toHaveBeenCalledTimes(2);
+  expect(subscriber).toHaveBeenLastCalledWith({
+    count: 1,
+    user: { name: "Jane" },
+    double: 2,
+    greeting: "Hello Jane",
+  });
+});
+
+test("getSnapshot should return the same frozen object until the store changes", () => {
+  const counter = createCounter();
+  const snapshot = counter.getSnapshot();
+
+  expect(Object.isFrozen(snapshot)).toBe(true);
+  expect(counter.getSnapshot()).toBe(snapshot);
+
+  counter.increment();
+
+  expect(counter.getSnapshot()).not.toBe(snapshot);
+  expect(counter.getSnapshot().count).toBe(1);
+});
+
+test("reset should restore the initial state in a single notification", () => {
+  const counter = createCounter();
+  counter.rename("Jane");
+  const subscriber = jest.fn();
+  counter.subscribe(subscriber);
+
+  counter.reset();
+
+  expect(counter.count).toBe(0);
+  expect(counter.greeting).toBe("Hello John");
+  expect(subscriber).toHaveBeenCalledTimes(2);
+});
+
+test("store properties should be tracked by effects", () => {
+  const counter = createCounter();
+  const values: number[] = [];
+  createRoot((disposeRoot) => {
+    createEffect(() => {
+      values.push(counter.double);
+    });
+
+    counter.increment();
+    flushSync();
+
+    expect(values).toEqual([0, 2]);
+    disposeRoot();
+  });
+});
+
+test("store state should only be assignable inside actions", () => {
+  const counter = createCounter();
+
+  expect(() => {
+    // @ts-expect-error State fields are read-only outside actions
+    counter.count = 5;
+  }).toThrow(TypeError);
+  expect(counter.count).toBe(0);
+});
+
+test("createStore should reject reserved and duplicated keys", () => {
+  expect(() => createStore({ state: { reset: 0 } })).toThrow(
+    'Store key "reset" is reserved or duplicated'
+  );
+  expect(() =>
+    createStore({
+      name: "store",
+      state: { count: 0 },
+      getters: { count: (state) => state.count },
+    })
+  ).toThrow('Store key "store.count" is reserved or duplicated');
+});
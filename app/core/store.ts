@@ -0,0 +1,217 @@
+import {
+  batch,
+  createComputedState,
+  createState,
+  type Getter,
+  type Setter,
+  type Subscriber,
+} from "./statemanager";
+
+/**
+ * Getter functions of a store, deriving values from its state.
+ *
+ * @template S - The type of the store state.
+ * @template G - The values returned by the getters.
+ */
+export type StoreGetters<S, G> = {
+  [K in keyof G]: (state: Readonly<S>) => G[K];
+};
+
+/**
+ * Action functions of a store, updating its state.
+ */
+export type StoreActions = Record<string, (...args: any[]) => unknown>;
+
+/**
+ * Plain object holding the current state and getter values of a store.
+ *
+ * @template S - The type of the store state.
+ * @template G - The values returned by the store getters.
+ */
+export type StoreSnapshot<S, G> = Readonly<S> & Readonly<G>;
+
+/**
+ * The `this` of store actions: state fields can be read and assigned, getters
+ * read and other actions called.
+ *
+ * @template S - The type of the store state.
+ * @template G - The values returned by the store getters.
+ * @template A - The type of the store actions.
+ */
+export type StoreContext<S, G, A> = S & Readonly<G> & A;
+
+/**
+ * Definition of a store passed to `createStore`.
+ *
+ * @template S - The type of the store state.
+ * @template G - The values returned by the store getters.
+ * @template A - The type of the store actions.
+ */
+export interface StoreDefinition<S, G, A> {
+  /** Debug label, prefixed to the names of the states of the store. */
+  name?: string;
+  /** Initial value of every state field. */
+  state: S;
+  /** Functions deriving values from the state, kept as computed states. */
+  getters?: StoreGetters<S, G>;
+  /** Functions updating the state, each run inside a batch. */
+  actions?: A & ThisType<StoreContext<S, G, A>>;
+}
+
+/**
+ * A store created by `createStore`. State fields and getters are read-only
+ * tracked properties; the state is updated through actions.
+ *
+ * @template S - The type of the store state.
+ * @template G - The values returned by the store getters.
+ * @template A - The type of the store actions.
+ */
+export type Store<S, G, A> = Readonly<S> &
+  Readonly<G> &
+  A & {
+    /**
+     * Returns the current state and getter values. The same frozen object is
+     * returned until one of them changes.
+     */
+    getSnapshot(): StoreSnapshot<S, G>;
+    /** Subscribes to snapshot changes and returns the unsubscribe function. */
+    subscribe(fn: Subscriber<StoreSnapshot<S, G>>): () => void;
+    /** Restores every state field to its initial value. */
+    reset(): void;
+  };
+
+/** Keys used by the methods of every store. */
+const reservedKeys = new Set(["getSnapshot", "subscribe", "reset"]);
+
+/**
+ * Creates a store grouping states, getters and actions under one object.
+ * State fields become states, getters become computed states and actions run
+ * inside a batch, so subscribers are notified once per action.
+ *
+ * States, getters and actions share one namespace: a key may only be used
+ * once and `getSnapshot`, `subscribe` and `reset` are reserved.
+ *
+ * @template S - The type of the store state.
+ * @template G - The values returned by the store getters.
+ * @template A - The type of the store actions.
+ * @param {StoreDefinition<S, G, A>} definition - The state, getters and actions of the store.
+ * @returns {Store<S, G, A>} - The store.
+ *
+ * @example
+ * ```typescript
+ * const counter = createStore({
+ *   name: "counter",
+ *   state: { count: 0 },
+ *   getters: {
+ *     double: (state) => state.count * 2,
+ *   },
+ *   actions: {
+ *     increment(by: number = 1) {
+ *       this.count += by;
+ *     },
+ *   },
+ * });
+ * counter.subscribe(({ count, double }) => console.log(count, double));
+ * counter.increment(); // Outputs: 1 2
+ * counter.reset(); // Outputs: 0 0
+ * ```
+ */
+export function createStore<
+  S extends object,
+  G extends object = {},
+  A extends StoreActions = {},
+>(definition: StoreDefinition<S, G, A>): Store<S, G, A> {
+  const initialState = definition.state as Record<string, unknown>;
+  const getters = (definition.getters ?? {}) as Record<
+    string,
+    (state: Readonly<S>) => unknown
+  >;
+  const actions = (definition.actions ?? {}) as StoreActions;
+  const prefix = definition.name ? `${definition.name}.` : "";
+
+  const keys = new Set<string>();
+  for (const key of [
+    ...Object.keys(initialState),
+    ...Object.keys(getters),
+    ...Object.keys(actions),
+  ]) {
+    if (reservedKeys.has(key) || keys.has(key)) {
+      throw new Error(`Store key "${prefix}${key}" is reserved or duplicated`);
+    }
+    keys.add(key);
+  }
+
+  const fields = new Map<string, [Getter<unknown>, Setter<unknown>]>();
+  for (const key of Object.keys(initialState)) {
+    const [get, set] = createState(initialState[key], {
+      name: `${prefix}${key}`,
+    });
+    fields.set(key, [get, set]);
+  }
+
+  // Read-only view of the state passed to getters
+  const view = {} as Readonly<S>;
+  for (const [key, [get]] of fields) {
+    Object.defineProperty(view, key, { get, enumerable: true });
+  }
+
+  const computed = new Map<string, Getter<unknown>>();
+  for (const key of Object.keys(getters)) {
+    const getter = getters[key]!;
+    const [get] = createComputedState(() => getter(view), {
+      name: `${prefix}${key}`,
+    });
+    computed.set(key, get);
+  }
+
+  const [getSnapshot, subscribe] = createComputedState(
+    () => {
+      const snapshot: Record<string, unknown> = {};
+      for (const [key, [get]] of fields) snapshot[key] = get();
+      for (const [key, get] of computed) snapshot[key] = get();
+      return snapshot as StoreSnapshot<S, G>;
+    },
+    {
+      name: `${prefix}snapshot`,
+      equals: "shallow",
+      clone: (snapshot) => Object.freeze(snapshot) as StoreSnapshot<S, G>,
+    }
+  );
+
+  const store = {} as Store<S, G, A>;
+  const context = {} as StoreContext<S, G, A>;
+  for (const [key, [get, set]] of fields) {
+    Object.defineProperty(store, key, { get, enumerable: true });
+    Object.defineProperty(context, key, {
+      get,
+      set: (value) => set(() => value),
+      enumerable: true,
+    });
+  }
+  for (const [key, get] of computed) {
+    Object.defineProperty(store, key, { get, enumerable: true });
+    Object.defineProperty(context, key, { get, enumerable: true });
+  }
+  for (const key of Object.keys(actions)) {
+    const action = actions[key]!;
+    const run = (...args: unknown[]): unknown =>
+      batch(() => action.apply(context, args));
+    Object.defineProperty(store, key, { value: run, enumerable: true });
+    Object.defineProperty(context, key, { value: run, enumerable: true });
+  }
+
+  Object.defineProperties(store, {
+    getSnapshot: { value: getSnapshot },
+    subscribe: { value: subscribe },
+    reset: {
+      value: (): void =>
+        batch(() => {
+          for (const [key, [, set]] of fields) {
+            set(() => initialState[key]);
+          }
+        }),
+    },
+  });
+
+  return Object.freeze(store) as Store<S, G, A>;
+}
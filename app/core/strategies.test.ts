@@ -0,0 +1,70 @@
+import {
+  deepEqual,
+  deepFreeze,
+  deepMerge,
+  resolveClone,
+  resolveEquals,
+  shallowEqual,
+} from "./strategies";
+import { expect, test } from "bun:test";
+
+test("shallowEqual should compare own entries by reference", () => {
+  const shared = { x: 1 };
+  expect(shallowEqual({ a: 1, b: shared }, { a: 1, b: shared })).toBe(true);
+  expect(shallowEqual([1, 2], [1, 2])).toBe(true);
+  expect(shallowEqual({ a: {} }, { a: {} })).toBe(false);
+  expect(shallowEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+  expect(shallowEqual([], {})).toBe(false);
+});
+
+test("deepEqual should compare nested structures", () => {
+  expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+  expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+  expect(deepEqual(new Date(1), new Date(1))).toBe(true);
+  expect(
+    deepEqual(new Map([["a", { x: 1 }]]), new Map([["a", { x: 1 }]]))
+  ).toBe(true);
+  expect(deepEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+  expect(deepEqual(NaN, NaN)).toBe(true);
+});
+
+test("deepEqual should handle circular references", () => {
+  const a: any = { name: "a" };
+  a.self = a;
+  const b: any = { name: "a" };
+  b.self = b;
+  expect(deepEqual(a, b)).toBe(true);
+});
+
+test("deepEqual should compare class instances by reference", () => {
+  class Point {
+    constructor(public x: number) {}
+  }
+  expect(deepEqual(new Point(1), new Point(1))).toBe(false);
+});
+
+test("deepFreeze should freeze plain objects recursively", () => {
+  const value = deepFreeze({ a: { b: [1, 2] } });
+  expect(Object.isFrozen(value)).toBe(true);
+  expect(Object.isFrozen(value.a)).toBe(true);
+  expect(Object.isFrozen(value.a.b)).toBe(true);
+});
+
+test("deepMerge should merge nested plain objects and replace arrays", () => {
+  const base = { name: { first: "John", last: "Doe" }, tags: ["a", "b"] };
+  const merged = deepMerge(base, { name: { first: "Jane" }, tags: ["c"] });
+
+  expect(merged).toEqual({
+    name: { first: "Jane", last: "Doe" },
+    tags: ["c"],
+  });
+  expect(base.name.first).toBe("John");
+});
+
+test("resolveEquals and resolveClone should accept custom functions", () => {
+  const equals = (a: number, b: number) => Math.round(a) === Math.round(b);
+  const clone = (value: number) => value * 2;
+  expect(resolveEquals(equals)).toBe(equals);
+  expect(resolveClone(clone)).toBe(clone);
+  expect(resolveClone<object>("none")(Math)).toBe(Math);
+});
@@ -0,0 +1,394 @@
+import type { ErrorHandler } from "./errors";
+import type { Middleware } from "./middleware";
+import type { Validator } from "./validation";
+
+/**
+ * Function comparing two values of a state.
+ *
+ * @template T - The type of the state.
+ * @param {T} a - The current value.
+ * @param {T} b - The next value.
+ * @returns {boolean} - Returns true if the values are considered equal.
+ */
+export type EqualityFn<T> = (a: T, b: T) => boolean;
+
+/**
+ * Strategy used to decide whether a new value differs from the current one.
+ *
+ * - `reference`: values are equal when they are the same value (`Object.is`).
+ * - `shallow`: objects and arrays are equal when their own entries are the same.
+ * - `deep`: values are equal when they are structurally identical.
+ * - A custom function comparing the two values.
+ *
+ * @template T - The type of the state.
+ */
+export type EqualityStrategy<T> =
+  "reference" | "shallow" | "deep" | EqualityFn<T>;
+
+/**
+ * Function producing the value stored by a state.
+ *
+ * @template T - The type of the state.
+ * @param {T} value - The value passed to the state.
+ * @returns {T} - The value to store.
+ */
+export type CloneFn<T> = (value: T) => T;
+
+/**
+ * Strategy used to protect stored values from outside mutation.
+ *
+ * - `structured`: stores a `structuredClone` of every value.
+ * - `freeze`: stores the value itself, deeply frozen.
+ * - `none`: stores the value as is.
+ * - A custom function returning the value to store.
+ *
+ * @template T - The type of the state.
+ */
+export type CloneStrategy<T> = "structured" | "freeze" | "none" | CloneFn<T>;
+
+/**
+ * Options accepted by every state creation function.
+ *
+ * @template T - The type of the state.
+ */
+export interface StateOptions<T> {
+  /** Debug label used in error messages. */
+  name?: string;
+  /**
+   * Receives the errors of this state's compute function and subscribers
+   * instead of the global `onError` handler.
+   */
+  onError?: ErrorHandler;
+  /** How new values are compared to the current one. Defaults to `reference`. */
+  equals?: EqualityStrategy<T>;
+  /** How values are copied before being stored. Defaults to `structured`. */
+  clone?: CloneStrategy<T>;
+  /**
+   * Middlewares run around the writes and notifications of this state, after
+   * the global ones. Computed states only run their `notify` hooks.
+   */
+  middleware?: Middleware<T>[];
+  /**
+   * Marks a state the library creates for its own bookkeeping, which no
+   * middleware runs on.
+   *
+   * @internal
+   */
+  internal?: boolean;
+}
+
+/**
+ * Options accepted by `createState` to validate its values.
+ *
+ * @template T - The type of the state.
+ */
+export interface ValidatedStateOptions<T> extends StateOptions<T> {
+  /**
+   * Checks the initial value and every written value, after the middlewares.
+   * Standard Schemas may transform the value; the transformed value is the
+   * one stored.
+   */
+  validate: Validator<T>;
+  /**
+   * What happens to invalid values. `reject` throws a `ValidationError` and
+   * keeps the current value; `flag` stores the value anyway. Both record the
+   * issues in the `errors` state of the setter. Defaults to `reject`.
+   */
+  invalid?: "reject" | "flag";
+}
+
+/**
+ * Recursively optional version of a type. Arrays are replaced as a whole.
+ *
+ * @template T - The type to make optional.
+ */
+export type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * Function applying the manual overrides of a hybrid state on top of its
+ * computed value.
+ *
+ * @template T - The type of the state.
+ * @param {T} computed - The computed value.
+ * @param {Partial<T>} override - The accumulated manual overrides.
+ * @returns {T} - The merged value.
+ */
+export type MergeFn<T> = (computed: T, override: Partial<T>) => T;
+
+/**
+ * Strategy used by hybrid states to combine their computed value with manual
+ * overrides.
+ *
+ * - `shallow`: overridden top-level keys replace the computed ones.
+ * - `deep`: overrides are merged recursively into nested plain objects, so
+ *   setting `{ name: { first } }` keeps the computed `name.last`.
+ * - A custom function merging the overrides into the computed value.
+ *
+ * @template T - The type of the state.
+ */
+export type MergeStrategy<T> = "shallow" | "deep" | MergeFn<T>;
+
+/**
+ * Options accepted by `createHybridState`.
+ *
+ * @template T - The type of the state.
+ */
+export interface HybridStateOptions<T> extends Omit<
+  StateOptions<T>,
+  "middleware"
+> {
+  /** How manual overrides are merged into the computed value. Defaults to `shallow`. */
+  merge?: MergeStrategy<T>;
+  /**
+   * Middlewares run around the writes and notifications of this state, after
+   * the global ones. Their `set` hooks receive the partial overrides.
+   */
+  middleware?: Middleware<T, Partial<T>>[];
+}
+
+/**
+ * Checks whether a value is a plain object or an array.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} - Returns true for arrays and plain objects.
+ */
+function isPlainObject(value: unknown): value is Record<PropertyKey, unknown> {
+  if (value === null || typeof value !== "object") return false;
+  if (Array.isArray(value)) return true;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Compares two values one level deep.
+ *
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @returns {boolean} - Returns true if the values are shallowly equal.
+ *
+ * @example
+ * ```typescript
+ * shallowEqual({ a: 1 }, { a: 1 }); // true
+ * shallowEqual({ a: {} }, { a: {} }); // false
+ * ```
+ */
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  for (const key of keysA) {
+    if (!Object.hasOwn(b, key) || !Object.is(a[key], b[key])) return false;
+  }
+  return true;
+}
+
+/**
+ * Compares two values structurally. Supports plain objects, arrays, dates,
+ * regular expressions, maps, sets and circular references. Other objects are
+ * compared by reference.
+ *
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @returns {boolean} - Returns true if the values are deeply equal.
+ *
+ * @example
+ * ```typescript
+ * deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }); // true
+ * ```
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  return compareDeep(a, b, new Map());
+}
+
+/**
+ * Recursive helper for `deepEqual`, tracking the pairs already being compared.
+ *
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @param {Map<object, Set<object>>} seen - The pairs currently being compared.
+ * @returns {boolean} - Returns true if the values are deeply equal.
+ */
+function compareDeep(
+  a: unknown,
+  b: unknown,
+  seen: Map<object, Set<object>>
+): boolean {
+  if (Object.is(a, b)) return true;
+  if (
+    a === null ||
+    b === null ||
+    typeof a !== "object" ||
+    typeof b !== "object"
+  ) {
+    return false;
+  }
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  let pairs = seen.get(a);
+  if (pairs?.has(b)) return true;
+  if (!pairs) {
+    pairs = new Set();
+    seen.set(a, pairs);
+  }
+  pairs.add(b);
+
+  if (a instanceof Date) {
+    return a.getTime() === (b as Date).getTime();
+  }
+  if (a instanceof RegExp) {
+    return String(a) === String(b);
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    if (a.size !== other.size) return false;
+    for (const [key, value] of a) {
+      if (!other.has(key) || !compareDeep(value, other.get(key), seen)) {
+        return false;
+      }
+    }
+    return true;
+  }
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    if (a.size !== other.size) return false;
+    for (const value of a) {
+      if (!other.has(value)) return false;
+    }
+    return true;
+  }
+  if (!isPlainObject(a)) return false;
+
+  const objA = a as Record<string, unknown>;
+  const objB = b as Record<string, unknown>;
+  const keysA = Object.keys(objA);
+  if (keysA.length !== Object.keys(objB).length) return false;
+  for (const key of keysA) {
+    if (!Object.hasOwn(objB, key) || !compareDeep(objA[key], objB[key], seen)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Recursively freezes plain objects and arrays. Other objects, such as class
+ * instances or DOM nodes, are left untouched.
+ *
+ * @template T - The type of the value.
+ * @param {T} value - The value to freeze.
+ * @returns {T} - The same value, frozen.
+ */
+export function deepFreeze<T>(value: T): T {
+  if (!isPlainObject(value) || Object.isFrozen(value)) return value;
+  Object.freeze(value);
+  for (const key of Object.keys(value)) {
+    deepFreeze(value[key]);
+  }
+  return value;
+}
+
+/**
+ * Recursively merges plain objects, returning a new object. Arrays and other
+ * values from the override replace the base value.
+ *
+ * @template T - The type of the base value.
+ * @param {T} base - The value to merge into.
+ * @param {DeepPartial<T>} override - The values to merge.
+ * @returns {T} - The merged value.
+ *
+ * @example
+ * ```typescript
+ * deepMerge({ name: { first: "John", last: "Doe" } }, { name: { first: "Jane" } });
+ * // { name: { first: "Jane", last: "Doe" } }
+ * ```
+ */
+export function deepMerge<T>(base: T, override: DeepPartial<T>): T {
+  if (
+    !isPlainObject(base) ||
+    !isPlainObject(override) ||
+    Array.isArray(base) ||
+    Array.isArray(override)
+  ) {
+    return override as T;
+  }
+  const result: Record<PropertyKey, unknown> = { ...base };
+  for (const key of Object.keys(override)) {
+    result[key] = Object.hasOwn(base, key)
+      ? deepMerge(base[key], override[key])
+      : override[key];
+  }
+  return result as T;
+}
+
+/**
+ * Resolves an equality strategy to a comparison function.
+ *
+ * @template T - The type of the state.
+ * @param {EqualityStrategy<T>} strategy - The strategy to resolve.
+ * @returns {EqualityFn<T>} - The comparison function.
+ */
+export function resolveEquals<T>(
+  strategy: EqualityStrategy<T> = "reference"
+): EqualityFn<T> {
+  switch (strategy) {
+    case "reference":
+      return Object.is;
+    case "shallow":
+      return shallowEqual;
+    case "deep":
+      return deepEqual;
+    default:
+      return strategy;
+  }
+}
+
+/**
+ * Resolves a clone strategy to a function producing the stored value.
+ *
+ * @template T - The type of the state.
+ * @param {CloneStrategy<T>} strategy - The strategy to resolve.
+ * @returns {CloneFn<T>} - The clone function.
+ */
+export function resolveClone<T>(
+  strategy: CloneStrategy<T> = "structured"
+): CloneFn<T> {
+  switch (strategy) {
+    case "structured":
+      return structuredClone;
+    case "freeze":
+      return deepFreeze;
+    case "none":
+      return (value) => value;
+    default:
+      return strategy;
+  }
+}
+
+/**
+ * Resolves a merge strategy to a function applying overrides.
+ *
+ * @template T - The type of the state.
+ * @param {MergeStrategy<T>} strategy - The strategy to resolve.
+ * @returns {MergeFn<T>} - The merge function.
+ */
+export function resolveMerge<T>(
+  strategy: MergeStrategy<T> = "shallow"
+): MergeFn<T> {
+  switch (strategy) {
+    case "shallow":
+      return (computed, override) => ({ ...computed, ...override });
+    case "deep":
+      return (computed, override) =>
+        deepMerge(computed, override as DeepPartial<T>);
+    default:
+      return strategy;
+  }
+}
@@ -0,0 +1,109 @@
+import { createState, flushSync } from "./statemanager";
+import { sync } from "./sync";
+import { expect, test, spyOn } from "bun:test";
+
+/**
+ * Waits for the messages posted so far to be delivered.
+ */
+const delivered = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+test("sync should mirror writes through a MessageChannel without echoing them", async () => {
+  const { port1, port2 } = new MessageChannel();
+  const a = createState(0);
+  const b = createState(0);
+  const syncA = sync(a, { channel: port1, id: "a" });
+  const syncB = sync(b, { channel: port2, id: "b" });
+  const postB = spyOn(port2, "postMessage");
+
+  a[1](1);
+  flushSync();
+  await delivered();
+
+  expect(b[0]()).toBe(1);
+  expect(syncB.clock()).toBe(1);
+  expect(postB).not.toHaveBeenCalled();
+
+  b[1]((count) => count + 1);
+  flushSync();
+  await delivered();
+
+  expect(a[0]()).toBe(2);
+  expect(syncA.clock()).toBe(2);
+
+  syncA.dispose();
+  syncB.dispose();
+  port1.close();
+});
+
+test("sync should send the latest value to contexts joining late", async () => {
+  const { port1, port2 } = new MessageChannel();
+  const a = createState({ items: ["apple"] });
+  const handle = sync(a, { channel: port1, id: "a" });
+  a[1]({ items: ["apple", "pear"] });
+  flushSync();
+  await delivered();
+
+  const b = createState({ items: [] as string[] });
+  const handleB = sync(b, { channel: port2, id: "b" });
+  await delivered();
+
+  expect(b[0]()).toEqual({ items: ["apple", "pear"] });
+
+  handle.dispose();
+  handleB.dispose();
+  port1.close();
+});
+
+test("sync should resolve concurrent writes with the same winner everywhere", async () => {
+  const { port1, port2 } = new MessageChannel();
+  const a = createState("");
+  const b = createState("");
+  const handleA = sync(a, { channel: port1, id: "a" });
+  const handleB = sync(b, { channel: port2, id: "b" });
+  await delivered();
+
+  a[1]("from a");
+  b[1]("from b");
+  flushSync();
+  await delivered();
+
+  expect(a[0]()).toBe("from b");
+  expect(b[0]()).toBe("from b");
+
+  a[1]("from a again");
+  flushSync();
+  await delivered();
+
+  expect(b[0]()).toBe("from a again");
+
+  handleA.dispose();
+  handleB.dispose();
+  port1.close();
+});
+
+test("sync should keep states with other keys apart on a BroadcastChannel", async () => {
+  const name = `sync-${crypto.randomUUID()}`;
+  const a = createState(0);
+  const b = createState(0);
+  const other = createState(0);
+  const handleA = sync(a, { channel: name, key: "count" });
+  const handleB = sync(b, { channel: name, key: "count" });
+  const handleOther = sync(other, { channel: name, key: "other" });
+
+  a[1](5);
+  flushSync();
+  await delivered();
+
+  expect(b[0]()).toBe(5);
+  expect(other[0]()).toBe(0);
+
+  handleB.dispose();
+  a[1](6);
+  flushSync();
+  await delivered();
+
+  expect(b[0]()).toBe(5);
+
+  handleA.dispose();
+  handleOther.dispose();
+});
@@ -0,0 +1,199 @@
+import {
+  flushSync,
+  type Getter,
+  type Setter,
+  type SubscriberFn,
+} from "./statemanager";
+
+/**
+ * Channel carrying the messages of `sync`, such as a `BroadcastChannel` or a
+ * `MessagePort`.
+ */
+export interface SyncChannel {
+  postMessage(message: unknown): void;
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void
+  ): void;
+  removeEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void
+  ): void;
+  /** Starts delivering messages. Required by `MessagePort`. */
+  start?(): void;
+  close?(): void;
+}
+
+/**
+ * Options accepted by `sync`.
+ */
+export interface SyncOptions {
+  /**
+   * The channel to synchronize through, or the name of a `BroadcastChannel`
+   * to open, which is closed with the synchronization.
+   */
+  channel: string | SyncChannel;
+  /**
+   * Identifies the state, so that several states can share a channel.
+   * Defaults to `"state"`.
+   */
+  key?: string;
+  /**
+   * Identifies this context, breaking ties between writes with the same
+   * clock. Defaults to a random UUID.
+   */
+  id?: string;
+}
+
+/**
+ * Handle returned by `sync`.
+ */
+export interface Synchronization {
+  /** Returns the logical clock of the current value, 0 until it is written. */
+  clock(): number;
+  /** Stops synchronizing the state. */
+  dispose(): void;
+}
+
+/**
+ * Message exchanged by the contexts synchronizing a state. `join` asks the
+ * other contexts for their value; `update` carries a value with the clock
+ * and context that wrote it.
+ */
+type SyncMessage =
+  | { kraai: "sync"; type: "join"; key: string }
+  | {
+      kraai: "sync";
+      type: "update";
+      key: string;
+      clock: number;
+      origin: string;
+      value: unknown;
+    };
+
+/**
+ * Checks whether a message was sent by `sync` for a key.
+ *
+ * @param {unknown} data - The data of the message.
+ * @param {string} key - The key of the synchronized state.
+ * @returns {boolean} - Returns true for messages about the state.
+ */
+function isSyncMessage(data: unknown, key: string): data is SyncMessage {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as SyncMessage).kraai === "sync" &&
+    (data as SyncMessage).key === key
+  );
+}
+
+/**
+ * Mirrors the writes of a state across browser tabs, workers or any contexts
+ * connected by a channel. Values are sent with the structured clone
+ * algorithm, so they must be cloneable.
+ *
+ * Conflicting writes are resolved with last-writer-wins on logical clocks:
+ * every write is stamped with a Lamport clock and the id of its context, and
+ * a received value only replaces the current one when its stamp is greater.
+ * On creation, the other contexts are asked for their value, so a context
+ * joining late catches up with the latest write. Received values are applied
+ * without being sent back.
+ *
+ * @template T - The type of the state.
+ * @param {[Getter<T>, Setter<T>, SubscriberFn<T>]} state - The tuple returned by `createState`.
+ * @param {SyncOptions} options - The channel and the key of the state.
+ * @returns {Synchronization} - The handle controlling the synchronization.
+ *
+ * @example
+ * ```typescript
+ * // In every tab
+ * const cart = createState<string[]>([]);
+ * sync(cart, { channel: "shop", key: "cart" });
+ *
+ * // With a worker, on both sides of a MessageChannel
+ * sync(settings, { channel: port, key: "settings" });
+ * ```
+ */
+export function sync<T>(
+  [get, set, subscribe]: [Getter<T>, Setter<T>, SubscriberFn<T>],
+  options: SyncOptions
+): Synchronization {
+  const { key = "state", id = crypto.randomUUID() } = options;
+  const channel: SyncChannel =
+    typeof options.channel === "string"
+      ? new BroadcastChannel(options.channel)
+      : options.channel;
+
+  // Lamport clock of this context, and stamp of the current value
+  let clock = 0;
+  let valueClock = 0;
+  let valueOrigin = "";
+  let initialized = false;
+  let applying = false;
+  let disposed = false;
+
+  const post = (message: SyncMessage): void => {
+    channel.postMessage(message);
+  };
+
+  const postValue = (): void => {
+    post({
+      kraai: "sync",
+      type: "update",
+      key,
+      clock: valueClock,
+      origin: valueOrigin,
+      value: get(),
+    });
+  };
+
+  const unsubscribe = subscribe(() => {
+    // Skip the initial call and the notifications of received values
+    if (!initialized) {
+      initialized = true;
+      return;
+    }
+    if (applying) return;
+    valueClock = ++clock;
+    valueOrigin = id;
+    postValue();
+  });
+
+  const onMessage = (event: MessageEvent): void => {
+    const message: unknown = event.data;
+    if (!isSyncMessage(message, key)) return;
+    if (message.type === "join") {
+      if (valueClock > 0) postValue();
+      return;
+    }
+    clock = Math.max(clock, message.clock);
+    const newer =
+      message.clock > valueClock ||
+      (message.clock === valueClock && message.origin > valueOrigin);
+    if (!newer) return;
+    valueClock = message.clock;
+    valueOrigin = message.origin;
+    applying = true;
+    try {
+      set(() => message.value as T);
+      flushSync();
+    } finally {
+      applying = false;
+    }
+  };
+
+  channel.addEventListener("message", onMessage);
+  channel.start?.();
+  post({ kraai: "sync", type: "join", key });
+
+  return {
+    clock: () => valueClock,
+    dispose(): void {
+      if (disposed) return;
+      disposed = true;
+      unsubscribe();
+      channel.removeEventListener("message", onMessage);
+      if (typeof options.channel === "string") channel.close?.();
+    },
+  };
+}
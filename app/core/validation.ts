@@ -0,0 +1,85 @@
+import { ValidationError, type ValidationIssue } from "./errors";
+
+/**
+ * Result of a validation: the validated value, or the problems found in it.
+ *
+ * @template T - The type of the value.
+ */
+export type ValidationResult<T> =
+  { value: T; issues?: undefined } | { issues: readonly ValidationIssue[] };
+
+/**
+ * Schema implementing the Standard Schema interface, such as the schemas of
+ * Zod, Valibot or ArkType.
+ *
+ * @template T - The type of the validated value.
+ */
+export interface StandardSchema<T> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => ValidationResult<T> | Promise<ValidationResult<T>>;
+  };
+}
+
+/**
+ * Checks a value. Either a Standard Schema, a function returning a
+ * `ValidationResult`, or a predicate returning `true` for valid values and
+ * `false` or an error message for invalid ones.
+ *
+ * @template T - The type of the value.
+ */
+export type Validator<T> =
+  StandardSchema<T> | ((value: T) => ValidationResult<T> | boolean | string);
+
+/**
+ * Runs a validator against a value. Only synchronous validators are
+ * supported, since states are set synchronously.
+ *
+ * @template T - The type of the value.
+ * @param {Validator<T>} validator - The validator to run.
+ * @param {T} value - The value to check.
+ * @returns {ValidationResult<T>} - The validated value, or the problems found in it.
+ *
+ * @example
+ * ```typescript
+ * runValidator((value: number) => value >= 0 || "Must be positive", -1);
+ * // { issues: [{ message: "Must be positive" }] }
+ * ```
+ */
+export function runValidator<T>(
+  validator: Validator<T>,
+  value: T
+): ValidationResult<T> {
+  const result =
+    typeof validator === "function"
+      ? validator(value)
+      : validator["~standard"].validate(value);
+  if (result === true) return { value };
+  if (result === false) return { issues: [{ message: "Invalid value" }] };
+  if (typeof result === "string") return { issues: [{ message: result }] };
+  if (typeof (result as any)?.then === "function") {
+    throw new TypeError("Asynchronous validators are not supported");
+  }
+  return result as ValidationResult<T>;
+}
+
+/**
+ * Creates the error thrown for a value rejected by a validator.
+ *
+ * @param {string | undefined} name - The label of the state.
+ * @param {readonly ValidationIssue[]} issues - The problems found in the value.
+ * @returns {ValidationError} - The error.
+ */
+export function createValidationError(
+  name: string | undefined,
+  issues: readonly ValidationIssue[]
+): ValidationError {
+  const messages = issues.map((issue) => issue.message);
+  return new ValidationError(
+    `Invalid value for ${name ?? "<anonymous>"}: ${messages.join(", ")}`,
+    issues
+  );
+}
@@ -1,30 +1,70 @@
 import {
   createState,
-  createComputedState,
   createHybridState,
+  createAsyncState,
 } from "./core/statemanager";
+import { bindAttr, bindText } from "./core/dom";
+import { persist } from "./core/persist";
+import { hydrate } from "./core/ssr";
+import { createStore } from "./core/store";
+
+// Start from the states rendered on the server, if any
+hydrate();
 
 // States
-const [val, setval, subval] = createState(0);
-const [_, subValC] = createComputedState(() => val() * 2);
-const [t, setT, subT] = createState(0);
-const [_2, setObj, subObj] = createHybridState(
+const counter = createStore({
+  name: "counter",
+  state: { count: 0 },
+  getters: {
+    double: (state) => state.count * 2,
+  },
+  actions: {
+    increment() {
+      this.count++;
+    },
+    decrement() {
+      this.count--;
+    },
+  },
+});
+const [getT, setT] = createState(0);
+const user = createHybridState(
   () => ({
-    no: val(),
+    no: counter.count,
     name: {
       first: "John",
       last: "Doe",
     },
   }),
   {
-    no: val(),
+    no: counter.count,
     name: {
       first: "John",
       last: "Doe",
     },
   }
 );
-const [_3, setData, subData] = createState({});
+persist(user, { key: "user" });
+const [getObj, setObj] = user;
+const [requests, setRequests] = createState(0);
+const [_5, setPerson] = createState<Record<string, any>>(
+  {},
+  {
+    name: "person",
+    validate: (person) =>
+      Object.keys(person).length === 0 ||
+      typeof person["email"] === "string" ||
+      "Missing email",
+    invalid: "flag",
+  }
+);
+const [getUserData] = createAsyncState(async (signal) => {
+  if (requests() === 0) return {};
+  const res = await fetch("https://randomuser.me/api/", { signal });
+  const data = await res.json();
+  setPerson(data.results[0]);
+  return data.results[0];
+});
 
 // DOM Elements
 const cEl = document.getElementById("count");
@@ -38,72 +78,48 @@ const dataEl = document.getElementById("data");
 const dataEl2 = document.getElementById("data2");
 
 // Event Handlers
-function increment() {
-  setval(val() + 1);
-}
-
-function decrement() {
-  setval(val() - 1);
-}
-
 function setObject() {
-  setObj({
-    name: {
-      first: "Jane",
-      last: "Doe",
-    },
-  });
+  setObj.setIn(["name", "first"], "Jane");
 }
 
 function timer() {
-  setT(t() + 1);
+  setT((t) => t + 1);
 }
 
 function getData() {
-  fetch("https://randomuser.me/api/")
-    .then((res) => res.json())
-    .then((data) => {
-      console.log(data.results[0]);
-      setData(data.results[0]);
-    });
+  setRequests((n) => n + 1);
 }
 
 // Event Listeners
-iEl?.addEventListener("click", increment);
+iEl?.addEventListener("click", counter.increment);
 diEl?.addEventListener("click", () => {
   setObject();
 });
-dEl?.addEventListener("click", decrement);
+dEl?.addEventListener("click", counter.decrement);
 dataEl?.addEventListener("click", getData);
 setInterval(timer, 1000);
 
-// Renderers
-function render(v: any) {
-  cEl!.innerText = v;
-}
-
-function renderData(v: any) {
-  sCel!.innerText = v;
-}
-
-function renderData2(v: any) {
-  dCel!.style.border = "1px solid black";
-  dCel!.style.maxWidth = "200px";
-  dCel!.style.color = "red";
-  dCel!.innerText = `${v.no} ${v.name.first} ${v.name.last}`;
-}
-
-function renderTimer(v: any) {
-  tEL!.innerText = v;
-}
-
-function renderData3(v: any) {
-  dataEl2!.innerText = JSON.stringify(v);
-}
-
-// Subscribers
-subval(render);
-subValC(renderData);
-subObj(renderData2);
-subT(renderTimer);
-subData(renderData3);
+// Bindings
+dCel!.style.border = "1px solid black";
+dCel!.style.maxWidth = "200px";
+dCel!.style.color = "red";
+bindText(cEl!, () => counter.count);
+bindText(sCel!, () => counter.double);
+bindText(dCel!, () => {
+  const { no, name } = getObj();
+  return `${no} ${name.first} ${name.last}`;
+});
+bindText(tEL!, getT);
+bindText(dataEl2!, () => {
+  const { status, data } = getUserData();
+  return status === "success" ? JSON.stringify(data) : status;
+});
+bindAttr(
+  dataEl2!,
+  "title",
+  () =>
+    setPerson
+      .errors()
+      .map((issue) => issue.message)
+      .join(", ") || null
+);
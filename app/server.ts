@@ -1,17 +1,32 @@
-import CreateRouter from "./utils/router";
+import Build from "./bundler";
+import CreateApp, { Json } from "./utils/app";
+import CreateDevServer from "./utils/devserver";
+import { Logger } from "./utils/middleware";
+import CreateRouter, { type Route } from "./utils/router";
 import ServeFile from "./utils/servefile";
 
+const root = process.env["ROOT"] ?? "app/examples";
+const router = await CreateRouter(root);
+const dev = process.argv.includes("--dev")
+  ? CreateDevServer({ root, sources: ["app"], build: Build })
+  : undefined;
+
+async function serveFile(route: Route, req: Request): Promise<Response> {
+  if (dev && route.contentType === "text/html") {
+    const html = await Bun.file(route.fullPath).text();
+    return new Response(dev.inject(html), {
+      headers: { "Content-Type": route.contentType },
+    });
+  }
+  return ServeFile(route.fullPath, route.contentType, req);
+}
+
+const app = CreateApp({ router, spa: true, serveFile })
+  .use(Logger())
+  .get("/api/health", () => Json({ status: "ok" }));
+
 Bun.serve({
-  async fetch(req) {
-    const routes = await CreateRouter();
-    const url = new URL(req.url);
-    const pathname = url.pathname;
-    const route = routes[pathname];
-    if (route) {
-      return ServeFile(route.fullPath, route.contentType);
-    } else if (pathname === "/") {
-      return ServeFile("app/examples/index.html", "text/html");
-    }
-    return new Response("Not Found", { status: 404 });
+  fetch(req) {
+    return dev?.fetch(req) ?? app.fetch(req);
   },
 });
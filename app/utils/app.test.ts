@@ -0,0 +1,238 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import CreateApp, { HttpError, Json } from "./app";
+import CreateRouter, { type Router } from "./router";
+import { afterAll, beforeAll, expect, spyOn, test } from "bun:test";
+
+let dir: string;
+let router: Router;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "kraai-app-"));
+  await mkdir(path.join(dir, "docs"));
+  await writeFile(path.join(dir, "index.html"), "<p>home</p>");
+  await writeFile(path.join(dir, "docs", "index.html"), "<p>docs</p>");
+  await writeFile(path.join(dir, "style.css"), "p {}");
+  router = await CreateRouter(dir, { watch: false });
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function request(pathname: string, init: RequestInit = {}): Request {
+  return new Request(`http://localhost${pathname}`, init);
+}
+
+test("CreateApp should pass the decoded parameters of the pattern", async () => {
+  const app = CreateApp()
+    .get("/users/:id/posts/:post", (_, { params }) => Json(params))
+    .get("/files/*", (_, { params }) => Json(params));
+
+  const user = await app.fetch(request("/users/j%C3%B8rn/posts/7/"));
+  expect(await user.json()).toEqual({ id: "jørn", post: "7" });
+
+  const file = await app.fetch(request("/files/a/b%20c.txt"));
+  expect(await file.json()).toEqual({ "*": "a/b c.txt" });
+
+  expect((await app.fetch(request("/users/1/posts"))).status).toBe(404);
+});
+
+test("CreateApp should escape the literal segments of patterns", async () => {
+  const app = CreateApp().get("/feed.json", () => Json([]));
+
+  expect((await app.fetch(request("/feed.json"))).status).toBe(200);
+  expect((await app.fetch(request("/feedxjson"))).status).toBe(404);
+});
+
+test("CreateApp should answer malformed escapes with 400", async () => {
+  const app = CreateApp().get("/u/:name", () => Json({}));
+
+  const response = await app.fetch(request("/u/%E0%A4%A"));
+
+  expect(response.status).toBe(400);
+});
+
+test("CreateApp should answer other methods of a route with 405", async () => {
+  const app = CreateApp()
+    .get("/items/:id", () => Json({}))
+    .delete("/items/:id", () => new Response(null, { status: 204 }));
+
+  const response = await app.fetch(request("/items/1", { method: "PUT" }));
+
+  expect(response.status).toBe(405);
+  expect(response.headers.get("Allow")).toBe("GET, DELETE");
+  expect(
+    (await app.fetch(request("/items/1", { method: "DELETE" }))).status
+  ).toBe(204);
+});
+
+test("CreateApp should answer HEAD requests with the GET handler", async () => {
+  const app = CreateApp().get("/ping", () => new Response("pong"));
+
+  const response = await app.fetch(request("/ping", { method: "HEAD" }));
+
+  expect(response.status).toBe(200);
+});
+
+test("CreateApp should serve the static files of the router", async () => {
+  const app = CreateApp({ router });
+
+  const style = await app.fetch(request("/style.css"));
+  expect(style.headers.get("Content-Type")).toBe("text/css");
+  expect(await style.text()).toBe("p {}");
+  expect(await (await app.fetch(request("/docs/"))).text()).toBe("<p>docs</p>");
+  expect(await (await app.fetch(request("/docs"))).text()).toBe("<p>docs</p>");
+});
+
+test("CreateApp should unescape the paths of static files", async () => {
+  await writeFile(path.join(dir, "my file.txt"), "spaced");
+  const files = await CreateRouter(dir, { watch: false });
+  try {
+    const app = CreateApp({ router: files, spa: true });
+
+    const file = await app.fetch(request("/my%20file.txt"));
+    expect(file.status).toBe(200);
+    expect(await file.text()).toBe("spaced");
+
+    const malformed = await app.fetch(
+      request("/my%E0%A4%A.txt", { headers: { Accept: "text/html" } })
+    );
+    expect(malformed.status).toBe(400);
+  } finally {
+    await rm(path.join(dir, "my file.txt"));
+  }
+});
+
+test("CreateApp should answer writes to static files with 405", async () => {
+  const app = CreateApp({ router });
+
+  const response = await app.fetch(request("/style.css", { method: "POST" }));
+
+  expect(response.status).toBe(405);
+  expect(response.headers.get("Allow")).toBe("GET, HEAD");
+  expect(
+    (await app.fetch(request("/missing.css", { method: "POST" }))).status
+  ).toBe(404);
+});
+
+test("CreateApp should match dynamic routes before static files", async () => {
+  const app = CreateApp({ router }).get(
+    "/style.css",
+    () => new Response("dynamic")
+  );
+
+  expect(await (await app.fetch(request("/style.css"))).text()).toBe("dynamic");
+});
+
+test("CreateApp should serve the index page to unknown HTML requests in SPA mode", async () => {
+  const spa = CreateApp({ router, spa: true });
+  const html = { headers: { Accept: "text/html,*/*" } };
+
+  const page = await spa.fetch(request("/settings/profile", html));
+  expect(page.status).toBe(200);
+  expect(await page.text()).toBe("<p>home</p>");
+
+  const api = await spa.fetch(
+    request("/settings", { headers: { Accept: "application/json" } })
+  );
+  expect(api.status).toBe(404);
+  const post = await spa.fetch(
+    request("/settings", { ...html, method: "POST" })
+  );
+  expect(post.status).toBe(404);
+  expect(
+    (await CreateApp({ router }).fetch(request("/settings", html))).status
+  ).toBe(404);
+});
+
+test("CreateApp should answer with the 404 and 500 pages of the router", async () => {
+  await writeFile(path.join(dir, "404.html"), "<p>lost</p>");
+  await writeFile(path.join(dir, "500.html"), "<p>broken</p>");
+  const pages = await CreateRouter(dir, { watch: false });
+  const error = spyOn(console, "error").mockImplementation(() => {});
+  try {
+    const app = CreateApp({ router: pages }).get("/fail", () => {
+      throw new Error("boom");
+    });
+
+    const missing = await app.fetch(request("/missing"));
+    expect(missing.status).toBe(404);
+    expect(missing.headers.get("Content-Type")).toBe("text/html");
+    expect(await missing.text()).toBe("<p>lost</p>");
+
+    const failed = await app.fetch(request("/fail"));
+    expect(failed.status).toBe(500);
+    expect(await failed.text()).toBe("<p>broken</p>");
+    expect(error).toHaveBeenCalledTimes(1);
+  } finally {
+    error.mockRestore();
+    await rm(path.join(dir, "404.html"));
+    await rm(path.join(dir, "500.html"));
+  }
+});
+
+test("CreateApp should answer with plain text without error pages", async () => {
+  const app = CreateApp().get("/teapot", () => {
+    throw new HttpError(418, "I'm a teapot");
+  });
+
+  const missing = await app.fetch(request("/missing"));
+  expect(missing.status).toBe(404);
+  expect(await missing.text()).toBe("Not Found");
+
+  const teapot = await app.fetch(request("/teapot"));
+  expect(teapot.status).toBe(418);
+  expect(await teapot.text()).toBe("I'm a teapot");
+});
+
+test("CreateApp should use the notFound and onError options", async () => {
+  const app = CreateApp({
+    notFound: (_, { url }) => Json({ missing: url.pathname }, 404),
+    onError: (error) => Json({ error: String(error) }, 503),
+  }).get("/fail", () => {
+    throw new Error("down");
+  });
+
+  expect(await (await app.fetch(request("/nope"))).json()).toEqual({
+    missing: "/nope",
+  });
+  const failed = await app.fetch(request("/fail"));
+  expect(failed.status).toBe(503);
+  expect(await failed.json()).toEqual({ error: "Error: down" });
+});
+
+test("CreateApp should run middleware in order around the route", async () => {
+  const calls: string[] = [];
+  const app = CreateApp()
+    .use(async (_, __, next) => {
+      calls.push("outer");
+      const response = await next();
+      calls.push(`outer ${response.status}`);
+      return response;
+    })
+    .use(async (_, __, next) => {
+      calls.push("inner");
+      return next();
+    })
+    .get("/fail", () => {
+      throw new HttpError(403, "Forbidden");
+    });
+
+  const response = await app.fetch(request("/fail"));
+
+  expect(response.status).toBe(403);
+  expect(calls).toEqual(["outer", "inner", "outer 403"]);
+});
+
+test("Json should set the status and headers of the response", async () => {
+  const created = Json({ id: 1 }, 201);
+  expect(created.status).toBe(201);
+  expect(created.headers.get("Content-Type")).toContain("application/json");
+
+  const cached = Json([], { headers: { "Cache-Control": "no-store" } });
+  expect(cached.status).toBe(200);
+  expect(cached.headers.get("Cache-Control")).toBe("no-store");
+  expect(await cached.json()).toEqual([]);
+});
@@ -0,0 +1,252 @@
+import type { Route, Router } from "./router";
+import ServeFile from "./servefile";
+
+export type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "OPTIONS";
+
+export interface Context {
+  /** The parsed URL of the request. */
+  url: URL;
+  /** The values of the `:name` parameters of the pattern, and `*` for the wildcard. */
+  params: Record<string, string>;
+}
+
+export type Handler = (
+  req: Request,
+  ctx: Context
+) => Response | Promise<Response>;
+
+export type Middleware = (
+  req: Request,
+  ctx: Context,
+  next: () => Promise<Response>
+) => Response | Promise<Response>;
+
+export interface AppOptions {
+  /** The static route table served when no dynamic route matches. */
+  router?: Router;
+  /**
+   * Serves `/index.html` for unknown GET requests accepting HTML, so that
+   * client-side routes survive reloads. Defaults to false.
+   */
+  spa?: boolean;
+  /** Serves a static route. Defaults to `ServeFile`. */
+  serveFile?: (route: Route, req: Request) => Promise<Response>;
+  /** Answers requests matching no route. Defaults to `/404.html`, or a plain 404. */
+  notFound?: Handler;
+  /** Answers requests whose handler threw. Defaults to `/500.html`, or a plain 500. */
+  onError?: (error: unknown, req: Request) => Response | Promise<Response>;
+}
+
+export interface App {
+  get(pattern: string, handler: Handler): App;
+  post(pattern: string, handler: Handler): App;
+  put(pattern: string, handler: Handler): App;
+  patch(pattern: string, handler: Handler): App;
+  delete(pattern: string, handler: Handler): App;
+  options(pattern: string, handler: Handler): App;
+  /** Adds a middleware wrapping every request, in the order they are added. */
+  use(middleware: Middleware): App;
+  /** Answers a request. Pass it to `Bun.serve`. */
+  fetch(req: Request): Promise<Response>;
+}
+
+interface DynamicRoute {
+  method: Method;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+/**
+ * Error answered with its status by the default error handler. Throw it from
+ * handlers and middleware to stop a request.
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+/**
+ * Creates a JSON response.
+ */
+export function Json(
+  data: unknown,
+  init: number | ResponseInit = {}
+): Response {
+  return Response.json(
+    data,
+    typeof init === "number" ? { status: init } : init
+  );
+}
+
+/**
+ * Compiles a pattern such as `/users/:id` or `/files/*` into a regular
+ * expression and the names of its parameters.
+ */
+function compilePattern(pattern: string): { pattern: RegExp; keys: string[] } {
+  const keys: string[] = [];
+  const source = pattern
+    .split("/")
+    .map((segment) => {
+      if (segment === "*") {
+        keys.push("*");
+        return "(.*)";
+      }
+      if (segment.startsWith(":")) {
+        keys.push(segment.slice(1));
+        return "([^/]+)";
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+  return { pattern: new RegExp(`^${source}/?$`), keys };
+}
+
+/**
+ * Unescapes a path or a segment of it. Returns undefined for malformed
+ * escapes such as `%E0%A4%A`.
+ */
+function decodePath(path: string): string | undefined {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Answers a request whose path cannot be unescaped.
+ */
+function badRequest(): Response {
+  return new Response("Bad Request", { status: 400 });
+}
+
+/**
+ * Creates a request handler combining dynamic routes, middleware and the
+ * static route table. Dynamic routes are matched first, then static files,
+ * then the SPA fallback and the 404 page.
+ */
+export default function CreateApp(options: AppOptions = {}): App {
+  const { router, spa = false } = options;
+  const serveFile =
+    options.serveFile ??
+    ((route: Route, req: Request) =>
+      ServeFile(route.fullPath, route.contentType, req));
+  const routes: DynamicRoute[] = [];
+  const middlewares: Middleware[] = [];
+
+  // Answers with a page of the static route table, or a plain text fallback
+  const serveStatus = async (
+    req: Request,
+    status: number,
+    text: string
+  ): Promise<Response> => {
+    const page = router?.routes[`/${status}.html`];
+    if (!page) return new Response(text, { status });
+    const response = await serveFile(page, new Request(req.url));
+    return new Response(response.body, { status, headers: response.headers });
+  };
+
+  const notFound: Handler =
+    options.notFound ?? ((req) => serveStatus(req, 404, "Not Found"));
+  const onError =
+    options.onError ??
+    ((error: unknown, req: Request) => {
+      if (error instanceof HttpError) {
+        return new Response(error.message, { status: error.status });
+      }
+      console.error(error);
+      return serveStatus(req, 500, "Internal Server Error");
+    });
+
+  const route = async (req: Request, ctx: Context): Promise<Response> => {
+    const { pathname } = ctx.url;
+    // HEAD requests are answered by GET handlers
+    const method = req.method === "HEAD" ? "GET" : req.method;
+    const allowed = new Set<string>();
+    for (const dynamic of routes) {
+      const match = dynamic.pattern.exec(pathname);
+      if (!match) continue;
+      if (dynamic.method !== method) {
+        allowed.add(dynamic.method);
+        continue;
+      }
+      for (const [index, key] of dynamic.keys.entries()) {
+        const value = decodePath(match[index + 1] ?? "");
+        if (value === undefined) return badRequest();
+        ctx.params[key] = value;
+      }
+      return dynamic.handler(req, ctx);
+    }
+    if (allowed.size > 0) {
+      return new Response("Method Not Allowed", {
+        status: 405,
+        headers: { Allow: Array.from(allowed).join(", ") },
+      });
+    }
+
+    if (router) {
+      // The routes are the paths of the files, unescaped
+      const filePath = decodePath(pathname);
+      if (filePath === undefined) return badRequest();
+      const file =
+        router.routes[filePath] ??
+        router.routes[`${filePath.replace(/\/$/, "")}/index.html`];
+      // Static files are only read
+      if (file && method !== "GET") {
+        return new Response("Method Not Allowed", {
+          status: 405,
+          headers: { Allow: "GET, HEAD" },
+        });
+      }
+      if (file) return serveFile(file, req);
+      const index = router.routes["/index.html"];
+      const acceptsHTML = req.headers.get("Accept")?.includes("text/html");
+      if (spa && method === "GET" && index && acceptsHTML) {
+        return serveFile(index, req);
+      }
+    }
+    return notFound(req, ctx);
+  };
+
+  const app: App = {
+    get: (pattern, handler) => add("GET", pattern, handler),
+    post: (pattern, handler) => add("POST", pattern, handler),
+    put: (pattern, handler) => add("PUT", pattern, handler),
+    patch: (pattern, handler) => add("PATCH", pattern, handler),
+    delete: (pattern, handler) => add("DELETE", pattern, handler),
+    options: (pattern, handler) => add("OPTIONS", pattern, handler),
+    use(middleware) {
+      middlewares.push(middleware);
+      return app;
+    },
+    async fetch(req) {
+      const ctx: Context = { url: new URL(req.url), params: {} };
+      // Errors become responses where they are thrown, so that the
+      // middleware around them sees their status
+      const run = async (index: number): Promise<Response> => {
+        const middleware = middlewares[index];
+        try {
+          return middleware
+            ? await middleware(req, ctx, () => run(index + 1))
+            : await route(req, ctx);
+        } catch (error) {
+          return onError(error, req);
+        }
+      };
+      return run(0);
+    },
+  };
+
+  function add(method: Method, pattern: string, handler: Handler): App {
+    routes.push({ method, handler, ...compilePattern(pattern) });
+    return app;
+  }
+
+  return app;
+}
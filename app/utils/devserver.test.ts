@@ -0,0 +1,209 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import type { BuildResult } from "../bundler";
+import CreateDevServer, { type DevServer } from "./devserver";
+import { afterAll, afterEach, beforeEach, expect, spyOn, test } from "bun:test";
+
+let dir: string;
+let root: string;
+let sources: string;
+let server: DevServer | undefined;
+
+// The dev server logs every build
+const log = spyOn(console, "log").mockImplementation(() => {});
+const error = spyOn(console, "error").mockImplementation(() => {});
+
+afterAll(() => {
+  log.mockRestore();
+  error.mockRestore();
+});
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "kraai-dev-"));
+  root = path.join(dir, "public");
+  sources = path.join(dir, "src");
+  await mkdir(root);
+  await mkdir(sources);
+  await writeFile(path.join(root, "index.html"), "<p>home</p>");
+  await writeFile(path.join(root, "style.css"), "p {}");
+  await writeFile(path.join(sources, "main.ts"), "");
+});
+
+afterEach(async () => {
+  server?.close();
+  server = undefined;
+  await rm(dir, { recursive: true, force: true });
+});
+
+const OK: BuildResult = { success: true, errors: [] };
+const BROKEN: BuildResult = { success: false, errors: ["main.ts:1:1: boom"] };
+
+function start(build: () => Promise<BuildResult>): DevServer {
+  server = CreateDevServer({ root, sources: [sources], build, debounce: 10 });
+  return server;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Waits for a condition changed by the watchers or the build
+async function waitFor(check: () => boolean): Promise<void> {
+  const deadline = Date.now() + 2000;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out");
+    await wait(10);
+  }
+}
+
+// Connects to the event stream and reads its events one by one
+function connect(dev: DevServer) {
+  const response = dev.fetch(new Request("http://localhost/__dev/events"))!;
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  return {
+    response,
+    async next(): Promise<unknown> {
+      for (;;) {
+        const end = buffer.indexOf("\n\n");
+        if (end !== -1) {
+          const message = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          // Heartbeats are comments
+          if (message.startsWith("data: ")) return JSON.parse(message.slice(6));
+          continue;
+        }
+        const { value, done } = await reader.read();
+        if (done) return undefined;
+        buffer +=
+          typeof value === "string"
+            ? value
+            : decoder.decode(value, { stream: true });
+      }
+    },
+  };
+}
+
+test("the dev server should send the build errors to pages connecting while the build is broken", async () => {
+  let builds = 0;
+  const dev = start(async () => {
+    builds++;
+    return BROKEN;
+  });
+  await waitFor(() => builds === 1);
+  await wait(0);
+
+  const events = connect(dev);
+
+  expect(events.response.headers.get("Content-Type")).toBe("text/event-stream");
+  expect(await events.next()).toEqual({
+    type: "error",
+    errors: ["main.ts:1:1: boom"],
+  });
+});
+
+test("the dev server should rebuild on source changes and send ok once fixed", async () => {
+  let result = BROKEN;
+  let builds = 0;
+  const dev = start(async () => {
+    builds++;
+    return result;
+  });
+  await waitFor(() => builds === 1);
+  await wait(0);
+  const events = connect(dev);
+  expect(await events.next()).toMatchObject({ type: "error" });
+
+  result = OK;
+  await writeFile(path.join(sources, "main.ts"), "export {};");
+
+  expect(await events.next()).toEqual({ type: "ok" });
+  expect(builds).toBe(2);
+});
+
+test("the dev server should swap changed stylesheets and reload other changes", async () => {
+  let builds = 0;
+  const dev = start(async () => {
+    builds++;
+    return OK;
+  });
+  await waitFor(() => builds === 1);
+  const events = connect(dev);
+
+  await writeFile(path.join(root, "style.css"), "p { color: red }");
+  expect(await events.next()).toEqual({ type: "css", path: "/style.css" });
+
+  await writeFile(path.join(root, "index.html"), "<p>changed</p>");
+  expect(await events.next()).toEqual({ type: "reload" });
+});
+
+test("the dev server should run builds one at a time with one follow-up build", async () => {
+  let running = 0;
+  let maxRunning = 0;
+  let builds = 0;
+  let release = () => {};
+  start(async () => {
+    builds++;
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    await new Promise<void>((resolve) => (release = resolve));
+    running--;
+    return OK;
+  });
+  await waitFor(() => builds === 1);
+
+  // Changes made during the build are grouped into one more build
+  await writeFile(path.join(sources, "main.ts"), "export const a = 1;");
+  await wait(50);
+  await writeFile(path.join(sources, "other.ts"), "export const b = 2;");
+  await wait(50);
+  expect(builds).toBe(1);
+
+  release();
+  await waitFor(() => builds === 2);
+  release();
+  await waitFor(() => running === 0);
+  await wait(50);
+
+  expect(builds).toBe(2);
+  expect(maxRunning).toBe(1);
+});
+
+test("the dev server should serve its client", async () => {
+  const dev = start(async () => OK);
+
+  const client = dev.fetch(new Request("http://localhost/__dev/client.js"))!;
+
+  expect(client.headers.get("Content-Type")).toBe("application/javascript");
+  expect(await client.text()).toContain('new EventSource("/__dev/events")');
+  expect(dev.fetch(new Request("http://localhost/index.html"))).toBeUndefined();
+});
+
+test("inject should add the client before the end of the body", () => {
+  const dev = start(async () => OK);
+  const script = '<script src="/__dev/client.js"></script>';
+
+  expect(dev.inject("<body><p>home</p></body>")).toBe(
+    `<body><p>home</p>${script}</body>`
+  );
+  expect(dev.inject("<p>home</p>")).toBe(`<p>home</p>${script}`);
+});
+
+test("close should disconnect the pages and stop watching", async () => {
+  let builds = 0;
+  const dev = start(async () => {
+    builds++;
+    return OK;
+  });
+  await waitFor(() => builds === 1);
+  const events = connect(dev);
+
+  dev.close();
+
+  expect(await events.next()).toBeUndefined();
+  await writeFile(path.join(sources, "main.ts"), "export {};");
+  await wait(100);
+  expect(builds).toBe(1);
+});
@@ -0,0 +1,221 @@
+import { watch, type FSWatcher } from "node:fs";
+import * as path from "node:path";
+import type { BuildResult } from "../bundler";
+
+export interface DevServerOptions {
+  /** The directory served, whose changes reload the pages. */
+  root: string;
+  /** The directories containing the sources of the build. */
+  sources: string[];
+  /** Rebuilds the sources into the root. */
+  build: () => Promise<BuildResult>;
+  /** Delay in milliseconds grouping the changes of one save. Defaults to 50. */
+  debounce?: number;
+}
+
+export interface DevServer {
+  /** Answers the requests made by the dev client, or returns undefined for other requests. */
+  fetch(req: Request): Response | undefined;
+  /** Adds the dev client to an HTML page. */
+  inject(html: string): string;
+  /** Stops watching and disconnects the pages. */
+  close(): void;
+}
+
+type DevEvent =
+  | { type: "reload" }
+  | { type: "css"; path: string }
+  | { type: "error"; errors: string[] }
+  | { type: "ok" };
+
+const EVENTS_PATH = "/__dev/events";
+const CLIENT_PATH = "/__dev/client.js";
+
+// Runs in the page: applies the events sent by the dev server
+const CLIENT = `(() => {
+  const events = new EventSource(${JSON.stringify(EVENTS_PATH)});
+  let overlay;
+  const hideOverlay = () => {
+    overlay?.remove();
+    overlay = undefined;
+  };
+  const showOverlay = (errors) => {
+    hideOverlay();
+    overlay = document.createElement("div");
+    overlay.style.cssText =
+      "position:fixed;inset:0;z-index:2147483647;overflow:auto;padding:24px;" +
+      "background:rgba(24,24,27,.95);color:#fca5a5;font:14px/1.5 monospace;" +
+      "white-space:pre-wrap";
+    const title = document.createElement("strong");
+    title.textContent = "Build failed";
+    title.style.cssText = "display:block;margin-bottom:12px;color:#f87171;font-size:18px";
+    overlay.append(title, errors.join("\\n\\n"));
+    document.body.append(overlay);
+  };
+  events.addEventListener("message", ({ data }) => {
+    const event = JSON.parse(data);
+    if (event.type === "reload") location.reload();
+    if (event.type === "error") showOverlay(event.errors);
+    if (event.type === "ok") hideOverlay();
+    if (event.type === "css") {
+      let swapped = false;
+      for (const link of document.querySelectorAll('link[rel="stylesheet"]')) {
+        const url = new URL(link.href);
+        if (url.pathname !== event.path) continue;
+        url.searchParams.set("t", Date.now());
+        link.href = url.href;
+        swapped = true;
+      }
+      if (!swapped) location.reload();
+    }
+  });
+})();
+`;
+
+/**
+ * Watches the sources and the served root during development: source changes
+ * rebuild the app, build errors are shown in an overlay, and changes of the
+ * root reload the pages, or only swap their stylesheets for CSS files. Events
+ * are pushed to the pages with server-sent events.
+ */
+export default function CreateDevServer(options: DevServerOptions): DevServer {
+  const { root, sources, build, debounce = 50 } = options;
+  const clients = new Set<ReadableStreamDefaultController<string>>();
+  let errors: string[] = [];
+
+  const write = (data: string): void => {
+    for (const client of clients) {
+      try {
+        client.enqueue(data);
+      } catch {
+        clients.delete(client);
+      }
+    }
+  };
+  const send = (event: DevEvent): void => {
+    write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Builds run one at a time; changes made during a build trigger one more
+  let building: Promise<void> | undefined;
+  let rebuild = false;
+  const runBuild = async (): Promise<void> => {
+    if (building) {
+      rebuild = true;
+      return building;
+    }
+    building = (async () => {
+      do {
+        rebuild = false;
+        const result = await build();
+        errors = result.errors;
+        if (result.success) {
+          console.log("Rebuilt");
+          send({ type: "ok" });
+        } else {
+          console.error(errors.join("\n"));
+          send({ type: "error", errors });
+        }
+      } while (rebuild);
+    })();
+    try {
+      await building;
+    } finally {
+      building = undefined;
+    }
+  };
+
+  const debounced = (fn: (files: Set<string>) => void) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let files = new Set<string>();
+    return (file: string): void => {
+      files.add(file);
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const changed = files;
+        files = new Set();
+        fn(changed);
+      }, debounce);
+    };
+  };
+
+  const resolvedRoot = path.resolve(root);
+  const onSourceChange = debounced(() => {
+    runBuild().catch(console.error);
+  });
+  const onRootChange = debounced((files) => {
+    const changed = Array.from(files);
+    if (changed.every((file) => file.endsWith(".css"))) {
+      for (const file of changed) {
+        send({ type: "css", path: "/" + file.split(path.sep).join("/") });
+      }
+    } else {
+      send({ type: "reload" });
+    }
+  });
+
+  const watchers: FSWatcher[] = [
+    ...sources.map((dir) =>
+      watch(dir, { recursive: true }, (_, filename) => {
+        if (!filename) return;
+        const fullPath = path.resolve(dir, filename.toString());
+        // The build writes into the root, which must not trigger a rebuild
+        if (fullPath.startsWith(resolvedRoot + path.sep)) return;
+        if (/\.(ts|tsx|js|jsx|css)$/.test(fullPath)) onSourceChange(fullPath);
+      })
+    ),
+    watch(root, { recursive: true }, (_, filename) => {
+      if (filename) onRootChange(filename.toString());
+    }),
+  ];
+
+  // Keeps idle connections from being closed by the server
+  const heartbeat = setInterval(() => write(": ping\n\n"), 5000);
+
+  runBuild().catch(console.error);
+
+  return {
+    fetch(req: Request): Response | undefined {
+      const { pathname } = new URL(req.url);
+      if (pathname === CLIENT_PATH) {
+        return new Response(CLIENT, {
+          headers: { "Content-Type": "application/javascript" },
+        });
+      }
+      if (pathname !== EVENTS_PATH) return undefined;
+      let controller: ReadableStreamDefaultController<string>;
+      const stream = new ReadableStream<string>({
+        start(c) {
+          controller = c;
+          clients.add(controller);
+          // Pages loaded while the build is broken show the overlay right away
+          if (errors.length > 0) {
+            c.enqueue(`data: ${JSON.stringify({ type: "error", errors })}\n\n`);
+          }
+        },
+        cancel() {
+          clients.delete(controller);
+        },
+      });
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        },
+      });
+    },
+    inject(html: string): string {
+      const script = `<script src="${CLIENT_PATH}"></script>`;
+      return html.includes("</body>")
+        ? html.replace("</body>", `${script}</body>`)
+        : html + script;
+    },
+    close(): void {
+      clearInterval(heartbeat);
+      for (const watcher of watchers) watcher.close();
+      for (const client of clients) client.close();
+      clients.clear();
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import CreateApp, { Json } from "./app";
+import { BearerAuth, Cors, Logger } from "./middleware";
+import { expect, jest, test } from "bun:test";
+
+function request(
+  pathname: string,
+  headers: Record<string, string> = {},
+  method = "GET"
+): Request {
+  return new Request(`http://localhost${pathname}`, { method, headers });
+}
+
+test("Logger should log the method, path and status of every request", async () => {
+  const log = jest.fn();
+  const app = CreateApp()
+    .use(Logger(log))
+    .get("/ok", () => Json({}));
+
+  await app.fetch(request("/ok"));
+  await app.fetch(request("/missing", {}, "DELETE"));
+
+  expect(log).toHaveBeenCalledTimes(2);
+  expect(log.mock.calls[0][0]).toMatch(/^GET \/ok 200 \d+\.\dms$/);
+  expect(log.mock.calls[1][0]).toMatch(/^DELETE \/missing 404 /);
+});
+
+test("Cors should add the allowed origin to responses", async () => {
+  const app = CreateApp()
+    .use(Cors())
+    .get("/data", () => Json({}, { headers: { Vary: "Accept" } }));
+
+  const response = await app.fetch(
+    request("/data", { Origin: "https://a.test" })
+  );
+
+  expect(response.status).toBe(200);
+  expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
+  expect(response.headers.get("Vary")).toBe("Accept");
+});
+
+test("Cors should only allow the listed origins", async () => {
+  const app = CreateApp()
+    .use(Cors({ origin: ["https://a.test"], credentials: true }))
+    .get("/data", () => Json({}, { headers: { Vary: "Accept" } }));
+
+  const allowed = await app.fetch(
+    request("/data", { Origin: "https://a.test" })
+  );
+  expect(allowed.headers.get("Access-Control-Allow-Origin")).toBe(
+    "https://a.test"
+  );
+  expect(allowed.headers.get("Access-Control-Allow-Credentials")).toBe("true");
+  expect(allowed.headers.get("Vary")).toBe("Accept, Origin");
+
+  const refused = await app.fetch(
+    request("/data", { Origin: "https://b.test" })
+  );
+  expect(refused.headers.has("Access-Control-Allow-Origin")).toBe(false);
+});
+
+test("Cors should echo the origin instead of a wildcard with credentials", async () => {
+  const app = CreateApp()
+    .use(Cors({ credentials: true }))
+    .get("/data", () => Json({}));
+
+  const response = await app.fetch(
+    request("/data", { Origin: "https://a.test" })
+  );
+
+  expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+    "https://a.test"
+  );
+});
+
+test("Cors should answer preflight requests", async () => {
+  const handler = jest.fn(() => Json({}));
+  const app = CreateApp()
+    .use(Cors({ methods: ["GET", "POST"], maxAge: 600 }))
+    .post("/data", handler);
+
+  const response = await app.fetch(
+    request(
+      "/data",
+      {
+        Origin: "https://a.test",
+        "Access-Control-Request-Method": "POST",
+        "Access-Control-Request-Headers": "Content-Type, X-Token",
+      },
+      "OPTIONS"
+    )
+  );
+
+  expect(response.status).toBe(204);
+  expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
+  expect(response.headers.get("Access-Control-Allow-Methods")).toBe(
+    "GET, POST"
+  );
+  expect(response.headers.get("Access-Control-Allow-Headers")).toBe(
+    "Content-Type, X-Token"
+  );
+  expect(response.headers.get("Access-Control-Max-Age")).toBe("600");
+  expect(handler).not.toHaveBeenCalled();
+});
+
+test("Cors should allow the configured headers in preflight responses", async () => {
+  const app = CreateApp().use(Cors({ headers: ["Authorization"] }));
+
+  const response = await app.fetch(
+    request(
+      "/data",
+      {
+        "Access-Control-Request-Method": "PUT",
+        "Access-Control-Request-Headers": "X-Token",
+      },
+      "OPTIONS"
+    )
+  );
+
+  expect(response.headers.get("Access-Control-Allow-Headers")).toBe(
+    "Authorization"
+  );
+  expect(response.headers.has("Access-Control-Max-Age")).toBe(false);
+});
+
+test("BearerAuth should reject requests without a valid token", async () => {
+  const verify = jest.fn((token: string) => token === "secret");
+  const app = CreateApp()
+    .use(BearerAuth({ verify }))
+    .get("/me", () => Json({ name: "kraai" }));
+
+  expect((await app.fetch(request("/me"))).status).toBe(401);
+  expect(
+    (await app.fetch(request("/me", { Authorization: "Basic secret" }))).status
+  ).toBe(401);
+  expect(
+    (await app.fetch(request("/me", { Authorization: "Bearer wrong" }))).status
+  ).toBe(401);
+
+  const response = await app.fetch(
+    request("/me", { Authorization: "bearer secret" })
+  );
+  expect(response.status).toBe(200);
+  expect(verify).toHaveBeenLastCalledWith("secret", expect.any(Request));
+});
+
+test("BearerAuth should only protect the paths under its prefix", async () => {
+  const app = CreateApp()
+    .use(BearerAuth({ prefix: "/admin", verify: async () => false }))
+    .get("/public", () => Json({}))
+    .get("/admin/users", () => Json([]));
+
+  expect((await app.fetch(request("/public"))).status).toBe(200);
+  expect((await app.fetch(request("/admin/users"))).status).toBe(401);
+});
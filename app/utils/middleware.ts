@@ -0,0 +1,103 @@
+import { HttpError, type Middleware } from "./app";
+
+export interface CorsOptions {
+  /** The allowed origins, or `*` for any. Defaults to `*`. */
+  origin?: string | string[];
+  /** The allowed methods. Defaults to the common ones. */
+  methods?: string[];
+  /** The allowed request headers. Defaults to the requested ones. */
+  headers?: string[];
+  /** Whether cookies and credentials are allowed. Defaults to false. */
+  credentials?: boolean;
+  /** How long preflight responses are cached, in seconds. */
+  maxAge?: number;
+}
+
+export interface AuthOptions {
+  /** Checks a bearer token. Requests with a rejected or missing token get a 401. */
+  verify: (token: string, req: Request) => boolean | Promise<boolean>;
+  /** Only the paths starting with this prefix are protected. Defaults to every path. */
+  prefix?: string;
+}
+
+/**
+ * Logs the method, path, status and duration of every request.
+ */
+export function Logger(log: (line: string) => void = console.log): Middleware {
+  return async (req, ctx, next) => {
+    const start = performance.now();
+    const response = await next();
+    const duration = (performance.now() - start).toFixed(1);
+    log(`${req.method} ${ctx.url.pathname} ${response.status} ${duration}ms`);
+    return response;
+  };
+}
+
+/**
+ * Adds CORS headers to the responses and answers preflight requests.
+ */
+export function Cors(options: CorsOptions = {}): Middleware {
+  const {
+    origin = "*",
+    methods = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE"],
+    credentials = false,
+    maxAge,
+  } = options;
+
+  const allowedOrigin = (req: Request): string | undefined => {
+    const requested = req.headers.get("Origin");
+    // Credentials cannot be sent to a wildcard origin
+    if (origin === "*") return credentials ? (requested ?? "*") : "*";
+    const origins = Array.isArray(origin) ? origin : [origin];
+    return requested && origins.includes(requested) ? requested : undefined;
+  };
+
+  return async (req, _, next) => {
+    const allowed = allowedOrigin(req);
+    const headers = new Headers();
+    if (allowed) headers.set("Access-Control-Allow-Origin", allowed);
+    if (allowed !== "*") headers.set("Vary", "Origin");
+    if (credentials) headers.set("Access-Control-Allow-Credentials", "true");
+
+    const preflight =
+      req.method === "OPTIONS" &&
+      req.headers.has("Access-Control-Request-Method");
+    if (preflight) {
+      headers.set("Access-Control-Allow-Methods", methods.join(", "));
+      const requestedHeaders =
+        options.headers?.join(", ") ??
+        req.headers.get("Access-Control-Request-Headers");
+      if (requestedHeaders) {
+        headers.set("Access-Control-Allow-Headers", requestedHeaders);
+      }
+      if (maxAge !== undefined) {
+        headers.set("Access-Control-Max-Age", String(maxAge));
+      }
+      return new Response(null, { status: 204, headers });
+    }
+
+    const response = await next();
+    const result = new Response(response.body, response);
+    headers.forEach((value, key) => {
+      if (key === "vary") result.headers.append(key, value);
+      else result.headers.set(key, value);
+    });
+    return result;
+  };
+}
+
+/**
+ * Rejects requests without a valid `Authorization: Bearer <token>` header.
+ */
+export function BearerAuth(options: AuthOptions): Middleware {
+  const { verify, prefix = "/" } = options;
+  return async (req, ctx, next) => {
+    if (!ctx.url.pathname.startsWith(prefix)) return next();
+    const header = req.headers.get("Authorization") ?? "";
+    const token = /^Bearer (.+)$/i.exec(header)?.[1];
+    if (!token || !(await verify(token, req))) {
+      throw new HttpError(401, "Unauthorized");
+    }
+    return next();
+  };
+}
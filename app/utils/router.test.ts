@@ -0,0 +1,90 @@
+import { mkdir, mkdtemp, rename, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import CreateRouter, { type Router } from "./router";
+import { afterEach, beforeEach, expect, test } from "bun:test";
+
+let root: string;
+let router: Router | undefined;
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), "kraai-router-"));
+});
+
+afterEach(async () => {
+  router?.close();
+  router = undefined;
+  await rm(root, { recursive: true, force: true });
+});
+
+// Waits for the watcher to apply a change
+async function waitFor(check: () => boolean): Promise<void> {
+  const deadline = Date.now() + 2000;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+test("CreateRouter should map the files of nested directories", async () => {
+  await mkdir(path.join(root, "blog", "2024"), { recursive: true });
+  await writeFile(path.join(root, "index.html"), "");
+  await writeFile(path.join(root, "blog", "2024", "post.json"), "{}");
+  await writeFile(path.join(root, "data.bin"), "");
+
+  router = await CreateRouter(root, { watch: false });
+
+  expect(Object.keys(router.routes).sort()).toEqual([
+    "/blog/2024/post.json",
+    "/data.bin",
+    "/index.html",
+  ]);
+  expect(router.routes["/blog/2024/post.json"]).toEqual({
+    fullPath: path.join(root, "blog", "2024", "post.json"),
+    contentType: "application/json",
+  });
+  expect(router.routes["/data.bin"]!.contentType).toBe(
+    "application/octet-stream"
+  );
+});
+
+test("CreateRouter should add and remove the routes of changed files", async () => {
+  router = await CreateRouter(root);
+  const { routes } = router;
+
+  await writeFile(path.join(root, "style.css"), "");
+  await waitFor(() => "/style.css" in routes);
+  expect(routes["/style.css"]!.contentType).toBe("text/css");
+
+  await rename(path.join(root, "style.css"), path.join(root, "main.css"));
+  await waitFor(() => "/main.css" in routes && !("/style.css" in routes));
+
+  await rm(path.join(root, "main.css"));
+  await waitFor(() => !("/main.css" in routes));
+});
+
+test("CreateRouter should update the routes of moved directories", async () => {
+  await mkdir(path.join(root, "docs", "guide"), { recursive: true });
+  await writeFile(path.join(root, "docs", "guide", "intro.html"), "");
+  router = await CreateRouter(root);
+  const { routes } = router;
+
+  await rename(path.join(root, "docs"), path.join(root, "manual"));
+  await waitFor(
+    () =>
+      "/manual/guide/intro.html" in routes &&
+      !("/docs/guide/intro.html" in routes)
+  );
+
+  await rm(path.join(root, "manual"), { recursive: true });
+  await waitFor(() => Object.keys(routes).length === 0);
+});
+
+test("CreateRouter should not watch when watching is disabled", async () => {
+  router = await CreateRouter(root, { watch: false });
+
+  await writeFile(path.join(root, "late.html"), "");
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  expect(router.routes).toEqual({});
+});
@@ -1,3 +1,4 @@
+import { watch, type FSWatcher } from "node:fs";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
 
@@ -5,11 +6,25 @@ interface MIMETYPES {
   [key: string]: string;
 }
 
-interface PathMap {
-  [key: string]: {
-    fullPath: string;
-    contentType: string;
-  };
+export interface Route {
+  fullPath: string;
+  contentType: string;
+}
+
+export interface PathMap {
+  [key: string]: Route;
+}
+
+export interface Router {
+  /** The routes, kept up to date while the router watches its root. */
+  routes: PathMap;
+  /** Stops watching the root. */
+  close(): void;
+}
+
+export interface RouterOptions {
+  /** Whether added, removed and renamed files update the routes. Defaults to true. */
+  watch?: boolean;
 }
 
 const MIMETYPES: MIMETYPES = {
@@ -26,27 +41,100 @@ const MIMETYPES: MIMETYPES = {
   webp: "image/webp",
 };
 
-export default async function CreateRouter() {
-  const files = await fs.readdir("app/examples", { withFileTypes: true });
-  const pathMap: PathMap = {};
+/**
+ * Returns the content type of a file from its extension.
+ */
+function getContentType(filename: string): string {
+  const ext = path.extname(filename).slice(1);
+  return (ext && MIMETYPES[ext]) || "application/octet-stream";
+}
 
-  files.forEach((file) => {
-    const fullPath = path.join("app/examples", file.name);
-    const relativePath = path.join("/", file.name);
-    if (file.isDirectory()) {
-      Object.assign(pathMap, CreateRouter());
-    } else {
-      const ext = path.extname(file.name).slice(1);
-      let contentType = "application/octet-stream";
-
-      if (ext) {
-        contentType = MIMETYPES[ext] || contentType;
+/**
+ * Returns the URL path of a file inside the root.
+ */
+function toRoutePath(root: string, fullPath: string): string {
+  return "/" + path.relative(root, fullPath).split(path.sep).join("/");
+}
+
+/**
+ * Adds the routes of every file inside a directory, recursively.
+ */
+async function addDirectory(
+  root: string,
+  dir: string,
+  pathMap: PathMap
+): Promise<void> {
+  const files = await fs.readdir(dir, { withFileTypes: true });
+  await Promise.all(
+    files.map(async (file) => {
+      const fullPath = path.join(dir, file.name);
+      if (file.isDirectory()) {
+        await addDirectory(root, fullPath, pathMap);
+      } else {
+        pathMap[toRoutePath(root, fullPath)] = {
+          fullPath,
+          contentType: getContentType(file.name),
+        };
       }
-      pathMap[relativePath] = {
-        fullPath,
-        contentType,
-      };
+    })
+  );
+}
+
+/**
+ * Updates the routes of a path that was added, removed or renamed.
+ */
+async function updatePath(
+  root: string,
+  fullPath: string,
+  pathMap: PathMap
+): Promise<void> {
+  const routePath = toRoutePath(root, fullPath);
+  const prefix = routePath.endsWith("/") ? routePath : routePath + "/";
+  for (const key of Object.keys(pathMap)) {
+    if (key === routePath || key.startsWith(prefix)) {
+      delete pathMap[key];
     }
-  });
-  return pathMap;
+  }
+  const stats = await fs.stat(fullPath).catch(() => null);
+  if (stats?.isDirectory()) {
+    await addDirectory(root, fullPath, pathMap);
+  } else if (stats?.isFile()) {
+    pathMap[routePath] = {
+      fullPath,
+      contentType: getContentType(fullPath),
+    };
+  }
+}
+
+/**
+ * Maps the URL path of every file inside a root directory, including nested
+ * directories, to the file. The map is built once, then updated from a
+ * filesystem watcher.
+ */
+export default async function CreateRouter(
+  root = "app/examples",
+  options: RouterOptions = {}
+): Promise<Router> {
+  const pathMap: PathMap = {};
+  await addDirectory(root, root, pathMap);
+
+  // Updates run one at a time, in the order of the events
+  let updating = Promise.resolve();
+  let watcher: FSWatcher | undefined;
+  if (options.watch ?? true) {
+    watcher = watch(root, { recursive: true }, (_, filename) => {
+      updating = updating
+        .then(() =>
+          filename
+            ? updatePath(root, path.join(root, filename.toString()), pathMap)
+            : updatePath(root, root, pathMap)
+        )
+        .catch(console.error);
+    });
+  }
+
+  return {
+    routes: pathMap,
+    close: () => watcher?.close(),
+  };
 }
@@ -0,0 +1,215 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { gunzipSync, brotliDecompressSync } from "node:zlib";
+import ServeFile from "./servefile";
+import { afterAll, beforeAll, expect, test } from "bun:test";
+
+// Large enough to be compressed
+const TEXT = "kraai ".repeat(400);
+
+let dir: string;
+let textPath: string;
+let imagePath: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "kraai-serve-"));
+  textPath = path.join(dir, "page.html");
+  imagePath = path.join(dir, "image.png");
+  await writeFile(textPath, TEXT);
+  await writeFile(imagePath, "0123456789");
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function serve(
+  filepath: string,
+  headers: Record<string, string> = {},
+  method = "GET"
+): Promise<Response> {
+  const req = new Request("http://localhost/file", { method, headers });
+  const contentType = filepath.endsWith(".png") ? "image/png" : "text/html";
+  return ServeFile(filepath, contentType, req);
+}
+
+test("ServeFile should serve the file with its validators", async () => {
+  const response = await serve(imagePath);
+
+  expect(response.status).toBe(200);
+  expect(await response.text()).toBe("0123456789");
+  expect(response.headers.get("Content-Type")).toBe("image/png");
+  expect(response.headers.get("Content-Length")).toBe("10");
+  expect(response.headers.get("Accept-Ranges")).toBe("bytes");
+  expect(response.headers.get("ETag")).toMatch(/^"[0-9a-f]+-[0-9a-f]+"$/);
+  expect(response.headers.get("Last-Modified")).toBeTruthy();
+  expect(response.headers.has("Vary")).toBe(false);
+});
+
+test("ServeFile should answer HEAD requests without a body", async () => {
+  const response = await serve(imagePath, {}, "HEAD");
+
+  expect(response.status).toBe(200);
+  expect(response.headers.get("Content-Length")).toBe("10");
+  expect(await response.text()).toBe("");
+});
+
+test("ServeFile should answer matching If-None-Match headers with 304", async () => {
+  const etag = (await serve(imagePath)).headers.get("ETag")!;
+
+  expect((await serve(imagePath, { "If-None-Match": etag })).status).toBe(304);
+  expect(
+    (await serve(imagePath, { "If-None-Match": `"other", W/${etag}` })).status
+  ).toBe(304);
+  expect((await serve(imagePath, { "If-None-Match": "*" })).status).toBe(304);
+  expect((await serve(imagePath, { "If-None-Match": '"other"' })).status).toBe(
+    200
+  );
+});
+
+test("ServeFile should answer unmodified files with 304", async () => {
+  const lastModified = (await serve(imagePath)).headers.get("Last-Modified")!;
+  const earlier = new Date(Date.parse(lastModified) - 1000).toUTCString();
+
+  expect(
+    (await serve(imagePath, { "If-Modified-Since": lastModified })).status
+  ).toBe(304);
+  expect(
+    (await serve(imagePath, { "If-Modified-Since": earlier })).status
+  ).toBe(200);
+  // If-None-Match takes precedence
+  expect(
+    (
+      await serve(imagePath, {
+        "If-Modified-Since": lastModified,
+        "If-None-Match": '"other"',
+      })
+    ).status
+  ).toBe(200);
+});
+
+test("ServeFile should serve byte ranges", async () => {
+  const response = await serve(imagePath, { Range: "bytes=2-5" });
+
+  expect(response.status).toBe(206);
+  expect(await response.text()).toBe("2345");
+  expect(response.headers.get("Content-Range")).toBe("bytes 2-5/10");
+  expect(response.headers.get("Content-Length")).toBe("4");
+
+  const open = await serve(imagePath, { Range: "bytes=7-" });
+  expect(await open.text()).toBe("789");
+  const clamped = await serve(imagePath, { Range: "bytes=8-100" });
+  expect(clamped.headers.get("Content-Range")).toBe("bytes 8-9/10");
+});
+
+test("ServeFile should serve suffix ranges", async () => {
+  const response = await serve(imagePath, { Range: "bytes=-3" });
+
+  expect(response.status).toBe(206);
+  expect(await response.text()).toBe("789");
+  expect(response.headers.get("Content-Range")).toBe("bytes 7-9/10");
+
+  const whole = await serve(imagePath, { Range: "bytes=-50" });
+  expect(await whole.text()).toBe("0123456789");
+});
+
+test("ServeFile should answer unsatisfiable ranges with 416", async () => {
+  const response = await serve(imagePath, { Range: "bytes=10-" });
+
+  expect(response.status).toBe(416);
+  expect(response.headers.get("Content-Range")).toBe("bytes */10");
+  expect((await serve(imagePath, { Range: "bytes=5-2" })).status).toBe(416);
+});
+
+test("ServeFile should ignore multiple and malformed ranges", async () => {
+  for (const range of ["bytes=0-1,4-5", "bytes=-", "items=0-1"]) {
+    const response = await serve(imagePath, { Range: range });
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("0123456789");
+  }
+});
+
+test("ServeFile should only serve ranges of the version named by If-Range", async () => {
+  const { headers } = await serve(imagePath);
+  const etag = headers.get("ETag")!;
+  const lastModified = headers.get("Last-Modified")!;
+
+  for (const ifRange of [etag, lastModified]) {
+    const response = await serve(imagePath, {
+      Range: "bytes=0-1",
+      "If-Range": ifRange,
+    });
+    expect(response.status).toBe(206);
+  }
+  const stale = await serve(imagePath, {
+    Range: "bytes=0-1",
+    "If-Range": '"old"',
+  });
+  expect(stale.status).toBe(200);
+  expect(await stale.text()).toBe("0123456789");
+});
+
+test("ServeFile should compress text with the preferred accepted encoding", async () => {
+  const br = await serve(textPath, { "Accept-Encoding": "gzip, br" });
+  expect(br.headers.get("Content-Encoding")).toBe("br");
+  expect(br.headers.get("Vary")).toBe("Accept-Encoding");
+  expect(br.headers.get("ETag")).toEndWith('-br"');
+  const body = new Uint8Array(await br.arrayBuffer());
+  expect(brotliDecompressSync(body).toString()).toBe(TEXT);
+
+  const gzip = await serve(textPath, { "Accept-Encoding": "gzip, br;q=0" });
+  expect(gzip.headers.get("Content-Encoding")).toBe("gzip");
+  expect(gunzipSync(new Uint8Array(await gzip.arrayBuffer())).toString()).toBe(
+    TEXT
+  );
+});
+
+test("ServeFile should not compress refused encodings, ranges or binary files", async () => {
+  const refused = await serve(textPath, {
+    "Accept-Encoding": "br;q=0, gzip;q=0, *",
+  });
+  expect(refused.headers.has("Content-Encoding")).toBe(false);
+  expect(await refused.text()).toBe(TEXT);
+
+  const wildcard = await serve(textPath, { "Accept-Encoding": "*;q=0" });
+  expect(wildcard.headers.has("Content-Encoding")).toBe(false);
+
+  const range = await serve(textPath, {
+    "Accept-Encoding": "br",
+    Range: "bytes=0-4",
+  });
+  expect(range.status).toBe(206);
+  expect(range.headers.has("Content-Encoding")).toBe(false);
+
+  const image = await serve(imagePath, { "Accept-Encoding": "br" });
+  expect(image.headers.has("Content-Encoding")).toBe(false);
+});
+
+test("ServeFile should prefer a precompressed file", async () => {
+  const precompressed = path.join(dir, "precompressed.html");
+  await writeFile(precompressed, TEXT);
+  await writeFile(precompressed + ".gz", "precompressed gzip");
+  try {
+    const response = await serve(precompressed, { "Accept-Encoding": "gzip" });
+    expect(response.headers.get("Content-Encoding")).toBe("gzip");
+    expect(response.headers.get("Content-Length")).toBe("18");
+    expect(await response.text()).toBe("precompressed gzip");
+
+    // Without a .br file, brotli is compressed on the fly
+    const br = await serve(precompressed, { "Accept-Encoding": "br" });
+    const body = new Uint8Array(await br.arrayBuffer());
+    expect(brotliDecompressSync(body).toString()).toBe(TEXT);
+
+    const head = await serve(
+      precompressed,
+      { "Accept-Encoding": "gzip" },
+      "HEAD"
+    );
+    expect(head.headers.get("Content-Length")).toBe("18");
+    expect(await head.text()).toBe("");
+  } finally {
+    await rm(precompressed);
+    await rm(precompressed + ".gz");
+  }
+});
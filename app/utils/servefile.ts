@@ -1,11 +1,183 @@
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { pipeline } from "node:stream";
+import * as zlib from "node:zlib";
+
+type Encoding = "br" | "gzip";
+
+// Files smaller than this are not worth compressing
+const MIN_COMPRESS_SIZE = 1024;
+
+// Extension of the precompressed file of every encoding
+const PRECOMPRESSED: Record<Encoding, string> = {
+  br: ".br",
+  gzip: ".gz",
+};
+
+/**
+ * Checks whether a content type benefits from compression.
+ */
+function isCompressible(contentType: string): boolean {
+  return (
+    contentType.startsWith("text/") ||
+    /^application\/(javascript|json|xml)|\+xml$/.test(contentType)
+  );
+}
+
+/**
+ * Returns the encodings accepted by the client, preferred first, ignoring
+ * those with a quality of 0.
+ */
+function acceptedEncodings(header: string | null): Encoding[] {
+  const accepted = new Map<string, number>();
+  for (const part of (header ?? "").split(",")) {
+    const [name = "", ...params] = part.trim().toLowerCase().split(";");
+    const q = params.find((param) => param.trim().startsWith("q="));
+    accepted.set(name, q ? Number(q.trim().slice(2)) : 1);
+  }
+  return (["br", "gzip"] as const).filter(
+    (encoding) => (accepted.get(encoding) ?? accepted.get("*") ?? 0) > 0
+  );
+}
+
+/**
+ * Checks whether an `If-None-Match` header matches an ETag, using weak
+ * comparison.
+ */
+function matchesETag(header: string, etag: string): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+  return header
+    .split(",")
+    .some((tag) => tag.trim() === "*" || opaque(tag) === opaque(etag));
+}
+
+/**
+ * Parses a single `bytes` range. Returns null for unsatisfiable ranges and
+ * undefined for headers that are ignored, such as multiple ranges.
+ */
+function parseRange(
+  header: string,
+  size: number
+): { start: number; end: number } | null | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return undefined;
+  const [, first = "", last = ""] = match;
+  if (first === "" && last === "") return undefined;
+  let start: number;
+  let end: number;
+  if (first === "") {
+    // Suffix range: the last bytes of the file
+    start = Math.max(size - Number(last), 0);
+    end = size - 1;
+  } else {
+    start = Number(first);
+    end = last === "" ? size - 1 : Math.min(Number(last), size - 1);
+  }
+  if (start > end || start >= size) return null;
+  return { start, end };
+}
+
+/**
+ * Compresses a file as a stream, reading the file only as fast as the client
+ * consumes the compressed chunks.
+ */
+function compress(filepath: string, encoding: Encoding): ReadableStream {
+  const compressor =
+    encoding === "br" ? zlib.createBrotliCompress() : zlib.createGzip();
+  // Errors of the file destroy the compressor, failing the stream
+  pipeline(createReadStream(filepath), compressor, () => {});
+  const chunks = compressor[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel() {
+      compressor.destroy();
+    },
+  });
+}
+
+/**
+ * Serves a file, streaming it from disk. With the request, responses carry
+ * `ETag` and `Last-Modified` headers and answer conditional requests with
+ * 304, byte ranges with 206, and clients accepting brotli or gzip with a
+ * precompressed `.br` or `.gz` file when there is one, or a compressed
+ * stream otherwise.
+ */
 export default async function ServeFile(
   filepath: string,
-  contentType: string
+  contentType: string,
+  req?: Request
 ): Promise<Response> {
-  const bytes = await Bun.file(filepath).bytes();
-  return new Response(bytes, {
-    headers: {
-      "Content-Type": contentType,
-    },
+  const file = Bun.file(filepath);
+  const stats = await stat(filepath);
+  const mtime = new Date(Math.floor(stats.mtime.getTime() / 1000) * 1000);
+  const tag = `${stats.size.toString(16)}-${mtime.getTime().toString(16)}`;
+  const headers = new Headers({
+    "Content-Type": contentType,
+    "Last-Modified": mtime.toUTCString(),
+    "Accept-Ranges": "bytes",
   });
+  const isHead = req?.method === "HEAD";
+  const range = req?.headers.get("Range");
+  const compressible = isCompressible(contentType);
+  if (compressible) headers.set("Vary", "Accept-Encoding");
+
+  // Ranges are served from the uncompressed file
+  const [encoding] =
+    compressible && !range && stats.size >= MIN_COMPRESS_SIZE
+      ? acceptedEncodings(req?.headers.get("Accept-Encoding") ?? null)
+      : [];
+  const etag = encoding ? `"${tag}-${encoding}"` : `"${tag}"`;
+  headers.set("ETag", etag);
+
+  // Conditional requests
+  const ifNoneMatch = req?.headers.get("If-None-Match");
+  const ifModifiedSince = req?.headers.get("If-Modified-Since");
+  if (
+    ifNoneMatch
+      ? matchesETag(ifNoneMatch, etag)
+      : ifModifiedSince && mtime.getTime() <= Date.parse(ifModifiedSince)
+  ) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  // Byte ranges, ignored when If-Range names another version of the file
+  const ifRange = req?.headers.get("If-Range");
+  if (
+    range &&
+    (!ifRange || ifRange === etag || Date.parse(ifRange) === mtime.getTime())
+  ) {
+    const parsed = parseRange(range, stats.size);
+    if (parsed === null) {
+      headers.set("Content-Range", `bytes */${stats.size}`);
+      return new Response(null, { status: 416, headers });
+    }
+    if (parsed) {
+      const { start, end } = parsed;
+      headers.set("Content-Range", `bytes ${start}-${end}/${stats.size}`);
+      headers.set("Content-Length", String(end - start + 1));
+      return new Response(isHead ? null : file.slice(start, end + 1), {
+        status: 206,
+        headers,
+      });
+    }
+  }
+
+  if (encoding) {
+    headers.set("Content-Encoding", encoding);
+    const precompressed = Bun.file(filepath + PRECOMPRESSED[encoding]);
+    if (await precompressed.exists()) {
+      headers.set("Content-Length", String(precompressed.size));
+      return new Response(isHead ? null : precompressed, { headers });
+    }
+    return new Response(isHead ? null : compress(filepath, encoding), {
+      headers,
+    });
+  }
+
+  headers.set("Content-Length", String(stats.size));
+  return new Response(isHead ? null : file, { headers });
 }